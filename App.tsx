@@ -1,47 +1,453 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { ConnectionState, TranscriptionItem } from './types';
-import { GeminiLiveService } from './services/geminiLive';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import {
+  AuditEntry,
+  AuditEventType,
+  AudioDeviceConfig,
+  ConnectionState,
+  KnowledgeDocument,
+  MeetingBriefing,
+  MeetingDetails,
+  MeetingSession,
+  MeetingSummary,
+  MicSettings,
+  ReplayProgress,
+  SessionEdit,
+  SuggestionRating,
+  SuggestionRecord,
+  TranscriptionItem,
+  TranscriptSource,
+  VoiceActivity,
+} from './types';
+import { MeetingAssistantProvider } from './services/assistantProvider';
+import { createAssistantProvider, createSummaryProvider, createTranslationProvider } from './services/providers';
+import { errorMessage } from './services/errors';
+import {
+  createSessionId,
+  defaultSessionTitle,
+  deleteKnowledgeDocument,
+  listKnowledgeDocuments,
+  saveKnowledgeDocument,
+  saveRecording,
+  saveSession,
+} from './services/sessionStore';
+import { createMeetingClock, PausableMeetingClock } from './services/meetingClock';
+import { MeetingRecorder } from './services/meetingRecorder';
+import { isPictureInPictureSupported, openOverlayWindow } from './services/pictureInPicture';
+import { togglePinned } from './services/transcriptSearch';
+import { applySpeakerNames } from './services/speakerDiarization';
+import {
+  buildKnowledgeIndex,
+  buildKnowledgeQuery,
+  createKnowledgeDocument,
+  formatPassagesForPrompt,
+  KnowledgeSettings,
+  loadKnowledgeSettings,
+  passageDocuments,
+  saveKnowledgeSettings,
+} from './services/knowledgeBase';
+import { loadTelemetryRates, saveTelemetryRates, TelemetryRates } from './services/telemetry';
+import { appendAudit, auditEntry, ConsentSettings, loadConsentSettings, saveConsentSettings } from './services/consent';
+import {
+  loadRedactionSettings,
+  redactSession,
+  redactText,
+  redactTranscript,
+  RedactionSettings,
+  saveRedactionSettings,
+} from './services/redaction';
+import { decodeAudioFile, REPLAY_FILE_ACCEPT, REPLAY_SPEEDS } from './services/audioFile';
+import {
+  AutoSuggestRules,
+  findTrigger,
+  isRateLimited,
+  loadAutoSuggestRules,
+  saveAutoSuggestRules,
+} from './services/autoSuggest';
+import { generateMeetingSummary, SummaryProvider } from './services/meetingSummary';
+import {
+  buildReplyLanguageInstruction,
+  loadTranslationSettings,
+  saveTranslationSettings,
+  shouldBackTranslate,
+  TranslationQueue,
+  TranslationSettings,
+  untranslatedItems,
+} from './services/translation';
+import { AudioMixer } from './services/audioMixer';
+import {
+  loadAudioDeviceConfig,
+  loadMicSettings,
+  micConstraints,
+  saveAudioDeviceConfig,
+  saveMicSettings,
+} from './services/audioSettings';
+import {
+  BUILT_IN_MODES,
+  buildSuggestionPrompt,
+  DEFAULT_MODE_ID,
+  loadCustomModes,
+  loadSuggestionSettings,
+  saveCustomModes,
+  saveSuggestionSettings,
+  shortcutFromEvent,
+  SuggestionMode,
+  SuggestionSettings,
+} from './services/suggestionModes';
+import {
+  ALTERNATIVES_TRIGGER_SUFFIX,
+  buildAlternativesPrompt,
+  buildRewritePrompt,
+  createSuggestionRequest,
+  expandAlternatives,
+  regeneratedTrigger,
+  REWRITE_STYLES,
+  RewriteStyle,
+  splitAlternatives,
+  SuggestionRequest,
+  upsertSuggestion,
+} from './services/suggestionHistory';
+import {
+  BriefingTemplate,
+  isBriefingEmpty,
+  loadBriefingDraft,
+  loadBriefingTemplates,
+  readBriefingFile,
+  saveBriefingDraft,
+  saveBriefingTemplates,
+} from './services/briefing';
+import {
+  applyModeBindings,
+  buildCommands,
+  CommandId,
+  findCommandByShortcut,
+  loadShortcutBindings,
+  modeCommandId,
+  saveShortcutBindings,
+  ShortcutBindings,
+} from './services/shortcuts';
 import AudioVisualizer from './components/AudioVisualizer';
 import Transcript from './components/Transcript';
 import SuggestionCard from './components/SuggestionCard';
+import MeetingHistory from './components/MeetingHistory';
+import ExportMenu from './components/ExportMenu';
+import MeetingSummaryPanel from './components/MeetingSummaryPanel';
+import SuggestionModeBar from './components/SuggestionModeBar';
+import PromptTemplateEditor from './components/PromptTemplateEditor';
+import BriefingEditor from './components/BriefingEditor';
+import SuggestionHistory from './components/SuggestionHistory';
+import VoiceActivityIndicator from './components/VoiceActivityIndicator';
+import AudioSettingsPanel from './components/AudioSettingsPanel';
+import AutoSuggestSettings from './components/AutoSuggestSettings';
+import CommandPalette from './components/CommandPalette';
+import FloatingOverlay from './components/FloatingOverlay';
+import TranslationSettingsPanel from './components/TranslationSettingsPanel';
+import PrivacySettingsPanel from './components/PrivacySettingsPanel';
+import ConsentDialog from './components/ConsentDialog';
+import DiagnosticsPanel from './components/DiagnosticsPanel';
+import KnowledgeBasePanel from './components/KnowledgeBasePanel';
+
+// Delay before writing transcript changes to IndexedDB, so streaming fragments are batched
+const SAVE_DEBOUNCE_MS = 1000;
+
+// Wait after a replayed recording ends before closing the session, so trailing speech is transcribed
+const REPLAY_DRAIN_MS = 3000;
+
+// How long the auto-suggest notification stays visible
+const AUTO_NOTICE_MS = 4000;
+
+const formatClock = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const micGainFor = (config: AudioDeviceConfig, settings: MicSettings) => (config.micMuted ? 0 : settings.gain);
 
 const App: React.FC = () => {
   // State
   const [connectionState, setConnectionState] = useState<ConnectionState>(ConnectionState.DISCONNECTED);
   const [stream, setStream] = useState<MediaStream | null>(null);
   const [transcripts, setTranscripts] = useState<TranscriptionItem[]>([]);
-  const [currentSuggestion, setCurrentSuggestion] = useState<TranscriptionItem | null>(null);
+  const [suggestions, setSuggestions] = useState<SuggestionRecord[]>([]);
+  const [currentSuggestionId, setCurrentSuggestionId] = useState<string | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [voiceActivity, setVoiceActivity] = useState<Partial<Record<VoiceActivity['source'], VoiceActivity>>>({});
+  const [meeting, setMeeting] = useState<MeetingDetails | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [isSummarizing, setIsSummarizing] = useState(false);
+  const [summaryError, setSummaryError] = useState<string | null>(null);
+  const [customModes, setCustomModes] = useState<SuggestionMode[]>(loadCustomModes);
+  const [suggestionSettings, setSuggestionSettings] = useState<SuggestionSettings>(loadSuggestionSettings);
+  const [showPromptEditor, setShowPromptEditor] = useState(false);
+  const [briefing, setBriefing] = useState<MeetingBriefing>(loadBriefingDraft);
+  const [briefingTemplates, setBriefingTemplates] = useState<BriefingTemplate[]>(loadBriefingTemplates);
+  const [showBriefing, setShowBriefing] = useState(false);
+  const [audioConfig, setAudioConfig] = useState<AudioDeviceConfig>(loadAudioDeviceConfig);
+  const [micSettings, setMicSettings] = useState<MicSettings>(() => loadMicSettings(loadAudioDeviceConfig().micId));
+  const [showAudioSettings, setShowAudioSettings] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(REPLAY_SPEEDS[0]);
+  const [replayProgress, setReplayProgress] = useState<ReplayProgress | null>(null);
+  const [autoRules, setAutoRules] = useState<AutoSuggestRules>(loadAutoSuggestRules);
+  const [showAutoSettings, setShowAutoSettings] = useState(false);
+  const [autoNotice, setAutoNotice] = useState<string | null>(null);
+  const [shortcutBindings, setShortcutBindings] = useState<ShortcutBindings>(loadShortcutBindings);
+  const [showPalette, setShowPalette] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [overlayWindow, setOverlayWindow] = useState<Window | null>(null);
+  const [translationSettings, setTranslationSettings] = useState<TranslationSettings>(loadTranslationSettings);
+  const [showTranslationSettings, setShowTranslationSettings] = useState(false);
+  const [redactionSettings, setRedactionSettings] = useState<RedactionSettings>(loadRedactionSettings);
+  const [showPrivacySettings, setShowPrivacySettings] = useState(false);
+  const [consentSettings, setConsentSettings] = useState<ConsentSettings>(loadConsentSettings);
+  const [showConsent, setShowConsent] = useState(false);
+  const [telemetryRates, setTelemetryRates] = useState<TelemetryRates>(loadTelemetryRates);
+  const [knowledgeDocuments, setKnowledgeDocuments] = useState<KnowledgeDocument[]>([]);
+  const [knowledgeSettings, setKnowledgeSettings] = useState<KnowledgeSettings>(loadKnowledgeSettings);
+  const [knowledgeError, setKnowledgeError] = useState<string | null>(null);
+  const [showKnowledgeBase, setShowKnowledgeBase] = useState(false);
+  const [sidePanel, setSidePanel] = useState<'transcript' | 'suggestions'>('transcript');
 
   // Refs
-  const geminiServiceRef = useRef<GeminiLiveService | null>(null);
+  const providerRef = useRef<MeetingAssistantProvider | null>(null);
+  const summaryProviderRef = useRef<SummaryProvider | null>(null);
+  // The request the next streamed suggestion belongs to
+  const pendingRequestRef = useRef<SuggestionRequest | null>(null);
+  // Requests of the suggestions still streaming, by response id, so a new request cannot take their place
+  const streamingRequestsRef = useRef(new Map<string, SuggestionRequest | null>());
   // Store source tracks (mic & display) to ensure they are stopped properly
   const activeTracksRef = useRef<MediaStreamTrack[]>([]);
+  const mixerRef = useRef<AudioMixer | null>(null);
+  const micStreamRef = useRef<MediaStream | null>(null);
+  const lastAutoItemRef = useRef<string | null>(null);
+  const autoFiredAtRef = useRef<number[]>([]);
+  const recorderRef = useRef<{ recorder: MeetingRecorder; sessionId: string } | null>(null);
+  // Id of the meeting that is running, until it is stopped
+  const activeMeetingIdRef = useRef<string | null>(null);
+  // The current meeting's clock, paused together with capture so offsets match the recording
+  const meetingClockRef = useRef<PausableMeetingClock | null>(null);
+  const translationQueueRef = useRef<TranslationQueue | null>(null);
+  const backTranslationQueueRef = useRef<TranslationQueue | null>(null);
+  // Read by the provider as utterances finish, so changes apply mid-meeting
+  const redactionRef = useRef(redactionSettings);
 
-  // Initialize service on mount
+  // Initialize providers on mount
   useEffect(() => {
-    geminiServiceRef.current = new GeminiLiveService(
-      (item) => {
+    const provider = createAssistantProvider();
+    providerRef.current = provider;
+    summaryProviderRef.current = createSummaryProvider();
+    const translationProvider = createTranslationProvider();
+    translationQueueRef.current = new TranslationQueue(translationProvider, (id, translation) => {
+      setTranscripts(prev => prev.map(item => (item.id === id ? { ...item, translation } : item)));
+    });
+    backTranslationQueueRef.current = new TranslationQueue(translationProvider, (id, backTranslation) => {
+      setSuggestions(prev => prev.map(suggestion => (suggestion.id === id ? { ...suggestion, backTranslation } : suggestion)));
+    });
+
+    const unsubscribers = [
+      provider.on('transcript', (item) => {
+        // Utterances are re-emitted under a stable id while they grow, so update in place
         setTranscripts(prev => {
-            return [...prev, item];
+            const index = prev.findIndex(existing => existing.id === item.id);
+            if (index === -1) return [...prev, item];
+            const next = [...prev];
+            next[index] = { ...prev[index], ...item }; // Keep anything added locally, like the translation
+            return next;
         });
 
-        if (!item.isUser) {
-          // It's a response from the model
+        if (item.source === TranscriptSource.ASSISTANT) {
+          // It's a response from the model. Its first fragment claims the pending request.
+          const streaming = streamingRequestsRef.current;
+          if (!streaming.has(item.id)) {
+            streaming.set(item.id, pendingRequestRef.current);
+            pendingRequestRef.current = null;
+          }
+          const request = streaming.get(item.id) ?? null;
+          const expand = item.isComplete && !!request?.expectsAlternatives && splitAlternatives(item.text).length > 1;
+          setSuggestions(prev => {
+            const next = upsertSuggestion(prev, item, request);
+            return expand ? expandAlternatives(next, item.id) : next;
+          });
           setIsGenerating(false);
-          setCurrentSuggestion(item);
+          setCurrentSuggestionId(expand ? `${item.id}-alt-1` : item.id);
+          if (item.isComplete) streaming.delete(item.id);
+        }
+      }),
+      provider.on('state', (state) => {
+        setConnectionState(state);
+        if (state === ConnectionState.ERROR) {
+          setErrorMsg(prev => prev ?? 'Lost the connection to the assistant and could not reconnect.');
+        } else if (state === ConnectionState.CONNECTED) {
+          setErrorMsg(null);
         }
-      },
-      (state) => setConnectionState(state)
-    );
+      }),
+      provider.on('replayProgress', (progress) => setReplayProgress(progress)),
+      provider.on('telemetry', (telemetry) => {
+        setMeeting(prev => (prev && !prev.endedAt ? { ...prev, telemetry } : prev));
+      }),
+      provider.on('voiceActivity', (activity) => {
+        setVoiceActivity(prev => ({ ...prev, [activity.source]: activity }));
+      }),
+    ];
 
     return () => {
-      geminiServiceRef.current?.disconnect();
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      provider.disconnect();
       cleanupTracks();
     };
   }, []);
 
+  useEffect(() => {
+    listKnowledgeDocuments()
+      .then(setKnowledgeDocuments)
+      .catch(err => console.error('Failed to load the knowledge base:', err));
+  }, []);
+
+  const knowledgeIndex = useMemo(() => buildKnowledgeIndex(knowledgeDocuments), [knowledgeDocuments]);
+
+  // A file with the name of an existing document replaces it
+  const handleImportKnowledge = async (files: File[]) => {
+    setKnowledgeError(null);
+    for (const file of files) {
+      try {
+        const { name, content } = await readBriefingFile(file);
+        const imported = createKnowledgeDocument(name, content);
+        await saveKnowledgeDocument(imported);
+        const replaced = knowledgeDocuments.filter(existing => existing.name === name);
+        await Promise.all(replaced.map(existing => deleteKnowledgeDocument(existing.id)));
+        setKnowledgeDocuments(prev => [...prev.filter(existing => existing.name !== name), imported]);
+      } catch (err) {
+        console.error('Failed to import into the knowledge base:', err);
+        setKnowledgeError(errorMessage(err, `Could not import "${file.name}".`));
+      }
+    }
+  };
+
+  const handleDeleteKnowledge = async (id: string) => {
+    try {
+      await deleteKnowledgeDocument(id);
+      setKnowledgeDocuments(prev => prev.filter(existing => existing.id !== id));
+    } catch (err) {
+      console.error('Failed to remove the document:', err);
+      setKnowledgeError(errorMessage(err, 'Could not remove the document.'));
+    }
+  };
+
+  const handleKnowledgeSettingsChange = (next: KnowledgeSettings) => {
+    setKnowledgeSettings(next);
+    saveKnowledgeSettings(next);
+  };
+
+  const currentSession = useMemo<MeetingSession | null>(() => {
+    if (!meeting) return null;
+    // Also covers the line still being spoken and the suggestions, which the provider does not redact
+    return redactSession({
+      ...meeting,
+      transcript: transcripts,
+      suggestions,
+    }, redactionSettings);
+  }, [meeting, transcripts, suggestions, redactionSettings]);
+
+  const currentSuggestion = suggestions.find(suggestion => suggestion.id === currentSuggestionId) ?? null;
+
+  // Persist the current meeting whenever its transcript or details change
+  useEffect(() => {
+    if (!currentSession) return;
+    const timer = setTimeout(() => {
+      saveSession(currentSession).catch(err => console.error("Failed to save meeting:", err));
+    }, SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [currentSession]);
+
+  const handleGenerateSummary = async () => {
+    if (!meeting || !summaryProviderRef.current) return;
+    const meetingId = meeting.id;
+    setIsSummarizing(true);
+    setSummaryError(null);
+    try {
+      const summary = await generateMeetingSummary(
+        applySpeakerNames(redactTranscript(transcripts, redactionSettings), meeting.speakerNames),
+        summaryProviderRef.current
+      );
+      setMeeting(prev => (prev?.id === meetingId ? { ...prev, summary } : prev));
+    } catch (err) {
+      console.error("Failed to summarize meeting:", err);
+      setSummaryError(errorMessage(err, "Could not generate the meeting summary."));
+    } finally {
+      setIsSummarizing(false);
+    }
+  };
+
+  // Summarize automatically once a meeting ends
+  useEffect(() => {
+    if (meeting?.endedAt && !meeting.summary && transcripts.length > 0) {
+      handleGenerateSummary();
+    }
+  }, [meeting?.endedAt]);
+
+  // Translate finished lines, and suggestions back into the transcript language, as they come in
+  useEffect(() => {
+    const { targetLanguage } = translationSettings;
+    if (!targetLanguage) return;
+    untranslatedItems(transcripts).forEach(item => translationQueueRef.current?.enqueue(item.id, item.text, targetLanguage));
+  }, [transcripts, translationSettings.targetLanguage]);
+
+  useEffect(() => {
+    if (!shouldBackTranslate(translationSettings)) return;
+    suggestions
+      .filter(suggestion => suggestion.isComplete && suggestion.text && suggestion.backTranslation === undefined)
+      .forEach(suggestion => {
+        backTranslationQueueRef.current?.enqueue(suggestion.id, suggestion.text, translationSettings.targetLanguage);
+      });
+  }, [suggestions, translationSettings]);
+
+  const handleTranslationSettingsChange = (next: TranslationSettings) => {
+    setTranslationSettings(next);
+    saveTranslationSettings(next);
+    setMeeting(prev => (prev && !prev.endedAt ? { ...prev, translationLanguage: next.targetLanguage || undefined } : prev));
+  };
+
+  const handleRedactionSettingsChange = (next: RedactionSettings) => {
+    setRedactionSettings(next);
+    saveRedactionSettings(next);
+    redactionRef.current = next;
+  };
+
+  const redactFinished = (text: string) => redactText(text, redactionRef.current);
+
+  const handleRenameSpeaker = (speaker: string, name: string) => {
+    setMeeting(prev => (prev ? { ...prev, speakerNames: { ...prev.speakerNames, [speaker]: name } } : prev));
+  };
+
+  const handleSummaryChange = (summary: MeetingSummary) => {
+    setMeeting(prev => (prev ? { ...prev, summary } : prev));
+  };
+
+  // Edits made in the meeting history. The current meeting is saved from App state, so its edits
+  // must land there too or the next autosave would write over them. Only the edited field is
+  // applied: the history's copy of everything else may be older than App state.
+  const handleSessionEdited = (id: string, edit: SessionEdit) => {
+    if (id !== meeting?.id) return;
+    const updateMeeting = (patch: (prev: MeetingDetails) => Partial<MeetingDetails>) =>
+      setMeeting(prev => (prev?.id === id ? { ...prev, ...patch(prev) } : prev));
+    switch (edit.field) {
+      case 'title':
+        updateMeeting(() => ({ title: edit.title }));
+        break;
+      case 'summary':
+        updateMeeting(() => ({ summary: edit.summary }));
+        break;
+      case 'speakerName':
+        updateMeeting(prev => ({ speakerNames: { ...prev.speakerNames, [edit.speaker]: edit.name } }));
+        break;
+      case 'rating':
+        handleRateSuggestion(edit.suggestionId, edit.rating);
+        break;
+      case 'pinned':
+        setTranscripts(prev => prev.map(item => (item.id === edit.itemId ? { ...item, pinned: edit.pinned } : item)));
+        break;
+    }
+  };
+
   const cleanupTracks = () => {
     activeTracksRef.current.forEach(track => {
         try {
@@ -51,19 +457,64 @@ const App: React.FC = () => {
         }
     });
     activeTracksRef.current = [];
+    micStreamRef.current = null;
+    recorderRef.current = null; // Only set here if the meeting failed to start; nothing worth keeping
+    meetingClockRef.current = null;
+    mixerRef.current?.close();
+    mixerRef.current = null;
+  };
+
+  // Clears the live state and starts a new meeting record
+  const resetForMeeting = (details: Pick<MeetingDetails, 'id' | 'title' | 'startedAt' | 'auditLog'>) => {
+    setTranscripts([]);
+    setVoiceActivity({});
+    setReplayProgress(null);
+    setIsPaused(false);
+    setSuggestions([]);
+    setCurrentSuggestionId(null);
+    setSummaryError(null);
+    translationQueueRef.current?.clear();
+    backTranslationQueueRef.current?.clear();
+    activeMeetingIdRef.current = details.id;
+    setMeeting({
+      ...details,
+      briefing: isBriefingEmpty(briefing) ? undefined : briefing,
+      translationLanguage: translationSettings.targetLanguage || undefined,
+    });
+  };
+
+  // Live capture records everyone on the call, so ask for their consent first unless that is turned off
+  const requestStartMeeting = () => {
+    if (consentSettings.required) {
+      setShowConsent(true);
+    } else {
+      handleStartMeeting();
+    }
   };
 
-  const handleStartMeeting = async () => {
+  const handleTelemetryRatesChange = (next: TelemetryRates) => {
+    setTelemetryRates(next);
+    saveTelemetryRates(next);
+  };
+
+  const handleConsentChange = (next: ConsentSettings) => {
+    setConsentSettings(next);
+    saveConsentSettings(next);
+  };
+
+  const handleStartMeeting = async (consent?: AuditEntry) => {
+    setShowConsent(false);
     setErrorMsg(null);
     cleanupTracks(); // Ensure fresh start
 
     try {
       // 1. Get Microphone Audio
-      const micStream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const micStream = await navigator.mediaDevices.getUserMedia({ audio: micConstraints(audioConfig.micId, micSettings) });
       if (micStream.getAudioTracks().length === 0) {
          throw new Error("No microphone audio track found. Please check your microphone settings.");
       }
       activeTracksRef.current.push(...micStream.getTracks());
+      micStreamRef.current = micStream;
       
       // 2. Get System/Tab Audio
       // Note: This prompts the user to select a tab or screen.
@@ -84,33 +535,38 @@ const App: React.FC = () => {
 
       activeTracksRef.current.push(...displayStream.getTracks());
 
-      // 3. Mix Streams
-      const audioContext = new AudioContext();
-      // Ensure context is running (sometimes browsers suspend it)
-      if (audioContext.state === 'suspended') {
-        await audioContext.resume();
-      }
-
-      const dest = audioContext.createMediaStreamDestination();
-      
-      const micSource = audioContext.createMediaStreamSource(micStream);
-      const displaySource = audioContext.createMediaStreamSource(displayStream);
-      
-      // Optional: Add some gain control
-      const micGain = audioContext.createGain();
-      micGain.gain.value = 1.0; 
-      
-      const displayGain = audioContext.createGain();
-      displayGain.gain.value = 1.0;
-
-      micSource.connect(micGain).connect(dest);
-      displaySource.connect(displayGain).connect(dest);
+      // 3. Route both sources through the gain stages. The service receives each processed source
+      // separately; the mix only feeds the visualizer.
+      const mixer = new AudioMixer(micStream, new MediaStream(displayStream.getAudioTracks()));
+      await mixer.resume();
+      mixer.setGain('mic', micGainFor(audioConfig, micSettings));
+      mixer.setGain('tab', audioConfig.tabGain);
+      mixerRef.current = mixer;
+      setStream(mixer.mixedStream);
 
-      const mixedStream = dest.stream;
-      setStream(mixedStream);
+      // Start a fresh meeting record. The recording and the transcript offsets share one clock.
+      const startedAt = Date.now();
+      const sessionId = createSessionId();
+      const clock = createMeetingClock();
+      meetingClockRef.current = clock;
+      if (audioConfig.recordAudio) {
+        recorderRef.current = { recorder: new MeetingRecorder(mixer.mixedStream, clock), sessionId };
+      }
+      resetForMeeting({
+        id: sessionId,
+        title: defaultSessionTitle(startedAt),
+        startedAt,
+        auditLog: [...(consent ? [consent] : []), auditEntry('captureStarted', undefined, startedAt)],
+      });
 
-      // Connect to Gemini
-      await geminiServiceRef.current?.connect(mixedStream);
+      // Connect the assistant, keeping my voice and the meeting audio apart
+      if (providerRef.current) {
+        await providerRef.current.connect({ briefing, clock, redact: redactFinished });
+        providerRef.current.streamAudio({
+          me: mixer.micStream,
+          remote: mixer.tabStream,
+        });
+      }
 
       // Handle stream end (user stops sharing via browser UI)
       const videoTrack = displayStream.getVideoTracks()[0];
@@ -137,9 +593,60 @@ const App: React.FC = () => {
     }
   };
 
+  // Runs the assistant over an uploaded recording instead of live capture
+  const handleReplayFile = async (file: File) => {
+    setErrorMsg(null);
+    cleanupTracks();
+    const provider = providerRef.current;
+    if (!provider) return;
+
+    // The user may stop the replay, or start another meeting, while it runs
+    let meetingId: string | null = null;
+    const isStillRunning = () => meetingId !== null && activeMeetingIdRef.current === meetingId;
+    try {
+      const samples = await decodeAudioFile(file);
+      const startedAt = Date.now();
+      meetingId = createSessionId();
+      resetForMeeting({ id: meetingId, title: `Replay of ${file.name}`, startedAt });
+      setStream(null);
+
+      // Offsets follow the recording's timeline, whatever the replay speed, and stop while it is paused
+      const clock = createMeetingClock(replaySpeed);
+      meetingClockRef.current = clock;
+      await provider.connect({ briefing, clock, replay: true, redact: redactFinished });
+      await provider.replayRecording(samples, { speed: replaySpeed });
+      // Give the last utterances time to be transcribed
+      await new Promise(resolve => setTimeout(resolve, REPLAY_DRAIN_MS));
+      if (isStillRunning()) await handleStopMeeting();
+    } catch (err) {
+      console.error('Error replaying recording:', err);
+      if (isStillRunning()) await handleStopMeeting(); // Ends the meeting so it is saved with an end time
+      setErrorMsg(errorMessage(err, 'Failed to replay the recording.'));
+      setConnectionState(ConnectionState.ERROR);
+    }
+  };
+
+  const finishRecording = async (recorder: MeetingRecorder, sessionId: string) => {
+    try {
+      const { audio, durationMs } = await recorder.stop();
+      await saveRecording({ sessionId, audio });
+      const recording = { mimeType: audio.type, durationMs, sizeBytes: audio.size };
+      setMeeting(prev => (prev?.id === sessionId ? { ...prev, recording } : prev));
+    } catch (err) {
+      console.error('Failed to save recording:', err);
+      setErrorMsg(`The meeting recording could not be saved: ${errorMessage(err)}`);
+    }
+  };
+
   const handleStopMeeting = async () => {
-    if (geminiServiceRef.current) {
-      await geminiServiceRef.current.disconnect();
+    activeMeetingIdRef.current = null;
+    // Stop the recorder before the audio graph it records is torn down
+    const active = recorderRef.current;
+    recorderRef.current = null;
+    if (active) finishRecording(active.recorder, active.sessionId);
+
+    if (providerRef.current) {
+      await providerRef.current.disconnect();
     }
     
     // Stop the mixed stream tracks (held in state)
@@ -151,21 +658,406 @@ const App: React.FC = () => {
     cleanupTracks();
 
     setStream(null);
+    setIsPaused(false);
     setConnectionState(ConnectionState.DISCONNECTED);
+    const endedAt = Date.now();
+    setMeeting(prev => {
+      if (!prev || prev.endedAt) return prev;
+      return prev.auditLog
+        ? { ...prev, endedAt, auditLog: appendAudit(prev.auditLog, auditEntry('captureStopped', undefined, endedAt)) }
+        : { ...prev, endedAt };
+    });
   };
 
-  const handleGenerateResponse = () => {
+  // Only live meetings keep an audit log; replays of a file have nothing to consent to
+  const logAudit = (type: AuditEventType) => {
+    setMeeting(prev => (prev?.auditLog ? { ...prev, auditLog: appendAudit(prev.auditLog, auditEntry(type)) } : prev));
+  };
+
+  const suggestionModes = useMemo(
+    () => applyModeBindings([...BUILT_IN_MODES, ...customModes], shortcutBindings),
+    [customModes, shortcutBindings]
+  );
+  const defaultMode = suggestionModes.find(mode => mode.id === DEFAULT_MODE_ID)!;
+
+  const sendSuggestionRequest = (request: SuggestionRequest) => {
     if (connectionState !== ConnectionState.CONNECTED) return;
+    pendingRequestRef.current = request;
     setIsGenerating(true);
-    setCurrentSuggestion(null); // Clear previous
-    geminiServiceRef.current?.requestSuggestion();
+    setCurrentSuggestionId(null); // Previous suggestions stay in the history
+    providerRef.current?.requestSuggestion(request.prompt);
+  };
+
+  const handleGenerateResponse = (mode: SuggestionMode = defaultMode, trigger: string = mode.label) => {
+    // The briefing goals stand in for the meeting goal when none is set in the prompt settings
+    const settings = { ...suggestionSettings, meetingGoal: suggestionSettings.meetingGoal || briefing.goals };
+    const spoken = applySpeakerNames(redactTranscript(transcripts, redactionSettings), meeting?.speakerNames);
+    // Passages from the knowledge base that match what was just said
+    const passages = knowledgeSettings.enabled && knowledgeIndex.size > 0
+      ? knowledgeIndex.search(buildKnowledgeQuery(spoken), knowledgeSettings.maxPassages)
+      : [];
+    const knowledge = formatPassagesForPrompt(passages);
+    sendSuggestionRequest(createSuggestionRequest(transcripts, {
+      trigger,
+      modeId: mode.id,
+      prompt: buildSuggestionPrompt(mode, spoken, settings) +
+        (knowledge ? `\n\n${knowledge}` : '') +
+        buildReplyLanguageInstruction(translationSettings),
+      knowledgeDocuments: passages.length > 0 ? passageDocuments(passages) : undefined,
+    }));
+  };
+
+  // Auto-suggest: check the transcript whenever it changes, and once more after the pause
+  // length so a question followed by silence can still trigger
+  useEffect(() => {
+    if (!autoRules.enabled || connectionState !== ConnectionState.CONNECTED) return;
+
+    const check = () => {
+      const now = Date.now();
+      const trigger = findTrigger(transcripts, now, autoRules, lastAutoItemRef.current);
+      if (!trigger) return;
+      lastAutoItemRef.current = trigger.itemId; // Each utterance gets one chance, even if skipped below
+      if (isGenerating || isRateLimited(autoFiredAtRef.current, now, autoRules)) return;
+
+      autoFiredAtRef.current = [...autoFiredAtRef.current.filter(time => now - time < autoRules.windowMs), now];
+      const mode = suggestionModes.find(m => m.id === autoRules.modeId) ?? defaultMode;
+      handleGenerateResponse(mode, `Auto · ${trigger.label}`);
+      setAutoNotice(trigger.label);
+    };
+
+    check();
+    const timer = setTimeout(check, autoRules.pauseMs);
+    return () => clearTimeout(timer);
+  }, [transcripts, autoRules, connectionState, isGenerating]);
+
+  useEffect(() => {
+    if (!autoNotice) return;
+    const timer = setTimeout(() => setAutoNotice(null), AUTO_NOTICE_MS);
+    return () => clearTimeout(timer);
+  }, [autoNotice]);
+
+  const handleAutoRulesChange = (rules: AutoSuggestRules) => {
+    setAutoRules(rules);
+    saveAutoSuggestRules(rules);
+  };
+
+  const handleRegenerate = (suggestion: SuggestionRecord) => {
+    sendSuggestionRequest(createSuggestionRequest(transcripts, {
+      trigger: regeneratedTrigger(suggestion.trigger),
+      modeId: suggestion.modeId,
+      prompt: suggestion.prompt,
+      parentId: suggestion.id,
+      knowledgeDocuments: suggestion.knowledgeDocuments,
+    }));
+  };
+
+  const handleAlternatives = (suggestion: SuggestionRecord) => {
+    sendSuggestionRequest(createSuggestionRequest(transcripts, {
+      trigger: `${suggestion.trigger}${ALTERNATIVES_TRIGGER_SUFFIX}`,
+      modeId: suggestion.modeId,
+      prompt: buildAlternativesPrompt(suggestion.prompt),
+      parentId: suggestion.id,
+      expectsAlternatives: true,
+      knowledgeDocuments: suggestion.knowledgeDocuments,
+    }));
+  };
+
+  const handleRewrite = (suggestion: SuggestionRecord, style: RewriteStyle) => {
+    sendSuggestionRequest(createSuggestionRequest(transcripts, {
+      trigger: `Rewrite: ${REWRITE_STYLES[style].label.toLowerCase()}`,
+      modeId: `rewrite-${style}`,
+      // Written in the reply language like the original; the new record gets its own back-translation
+      prompt: buildRewritePrompt(style, suggestion.text) + buildReplyLanguageInstruction(translationSettings),
+      parentId: suggestion.id,
+      knowledgeDocuments: suggestion.knowledgeDocuments, // The rewrite keeps the original's citation
+    }));
+  };
+
+  const handleRateSuggestion = (id: string, rating: SuggestionRating | undefined) => {
+    setSuggestions(prev => prev.map(suggestion => (suggestion.id === id ? { ...suggestion, rating } : suggestion)));
+  };
+
+  const handleTogglePause = () => {
+    const provider = providerRef.current;
+    if (!provider || connectionState === ConnectionState.DISCONNECTED || connectionState === ConnectionState.ERROR) return;
+    const recorder = recorderRef.current?.recorder;
+    if (isPaused) {
+      meetingClockRef.current?.resume();
+      recorder?.resume();
+      provider.resume();
+    } else {
+      provider.pause();
+      recorder?.pause();
+      meetingClockRef.current?.pause();
+    }
+    logAudit(isPaused ? 'captureResumed' : 'capturePaused');
+    setIsPaused(!isPaused);
+  };
+
+  const handleCopyLastSuggestion = () => {
+    const suggestion = currentSuggestion ?? [...suggestions].reverse().find(s => s.isComplete);
+    if (!suggestion?.text) return;
+    navigator.clipboard.writeText(suggestion.text).catch(err => console.error('Failed to copy suggestion:', err));
+  };
+
+  const handleToggleOverlay = async () => {
+    if (overlayWindow) {
+      overlayWindow.close();
+      return;
+    }
+    try {
+      const opened = await openOverlayWindow();
+      if (!opened) return;
+      opened.addEventListener('pagehide', () => setOverlayWindow(null), { once: true });
+      setOverlayWindow(opened);
+    } catch (err) {
+      console.error('Failed to open the floating overlay:', err);
+      setErrorMsg(`Could not open the floating overlay: ${errorMessage(err)}`);
+    }
+  };
+
+  // The overlay belongs to this page; close it with the app
+  useEffect(() => () => overlayWindow?.close(), [overlayWindow]);
+
+  const commands = useMemo(() => buildCommands(suggestionModes, shortcutBindings), [suggestionModes, shortcutBindings]);
+
+  const isCommandEnabled = (id: CommandId) => {
+    const live = connectionState !== ConnectionState.DISCONNECTED && connectionState !== ConnectionState.ERROR;
+    if (id.startsWith('mode:')) return connectionState === ConnectionState.CONNECTED && !isGenerating;
+    if (id === 'copyLastSuggestion') return !!currentSuggestion || suggestions.some(s => s.isComplete);
+    if (id === 'dismissSuggestion') return !!currentSuggestionId;
+    if (id === 'togglePause') return live;
+    if (id === 'toggleOverlay') return isPictureInPictureSupported();
+    return true;
+  };
+
+  const runCommand = (id: CommandId) => {
+    if (!isCommandEnabled(id)) return;
+    if (id.startsWith('mode:')) {
+      const mode = suggestionModes.find(m => modeCommandId(m.id) === id);
+      if (mode) handleGenerateResponse(mode);
+      return;
+    }
+    switch (id) {
+      case 'openPalette':
+        setShowPalette(true);
+        break;
+      case 'copyLastSuggestion':
+        handleCopyLastSuggestion();
+        break;
+      case 'dismissSuggestion':
+        setCurrentSuggestionId(null);
+        break;
+      case 'togglePause':
+        handleTogglePause();
+        break;
+      case 'toggleOverlay':
+        handleToggleOverlay();
+        break;
+      case 'toggleMeeting':
+        if (connectionState === ConnectionState.DISCONNECTED || connectionState === ConnectionState.ERROR) {
+          requestStartMeeting();
+        } else {
+          handleStopMeeting();
+        }
+        break;
+    }
+  };
+
+  const handleRebind = (id: CommandId, shortcut: string | null) => {
+    const next = { ...shortcutBindings, [id]: shortcut };
+    setShortcutBindings(next);
+    saveShortcutBindings(next);
+  };
+
+  // Global keyboard shortcuts, in the overlay too. Re-subscribed every render so the handlers
+  // see the current state.
+  useEffect(() => {
+    if (showPalette) return; // The palette handles its own keys
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const command = findCommandByShortcut(commands, shortcutFromEvent(e));
+      if (!command) return;
+      e.preventDefault();
+      runCommand(command.id);
+    };
+    const targets = overlayWindow ? [window, overlayWindow] : [window];
+    targets.forEach(target => target.addEventListener('keydown', handleKeyDown));
+    return () => targets.forEach(target => target.removeEventListener('keydown', handleKeyDown));
+  });
+
+  const handleBriefingChange = (next: MeetingBriefing) => {
+    setBriefing(next);
+    saveBriefingDraft(next);
+  };
+
+  const handleBriefingTemplatesChange = (templates: BriefingTemplate[]) => {
+    setBriefingTemplates(templates);
+    saveBriefingTemplates(templates);
+  };
+
+  // Re-opens the microphone on another device and swaps it into the running mixer
+  const switchMicrophone = async (micId: string | undefined, settings: MicSettings) => {
+    try {
+      const micStream = await navigator.mediaDevices.getUserMedia({ audio: micConstraints(micId, settings) });
+      const mixer = mixerRef.current;
+      if (!mixer) {
+        micStream.getTracks().forEach(track => track.stop()); // The meeting ended meanwhile
+        return;
+      }
+      const previous = micStreamRef.current;
+      mixer.replaceMic(micStream);
+      micStreamRef.current = micStream;
+      if (previous) {
+        previous.getTracks().forEach(track => track.stop());
+        activeTracksRef.current = activeTracksRef.current.filter(track => !previous.getTracks().includes(track));
+      }
+      activeTracksRef.current.push(...micStream.getTracks());
+    } catch (err) {
+      console.error('Failed to switch microphone:', err);
+      setErrorMsg(`Could not switch microphone: ${errorMessage(err)}`);
+    }
+  };
+
+  const handleAudioConfigChange = (next: AudioDeviceConfig) => {
+    const deviceChanged = next.micId !== audioConfig.micId;
+    const nextMicSettings = deviceChanged ? loadMicSettings(next.micId) : micSettings;
+    setAudioConfig(next);
+    saveAudioDeviceConfig(next);
+    if (deviceChanged) setMicSettings(nextMicSettings);
+
+    const mixer = mixerRef.current;
+    if (!mixer) return;
+    mixer.setGain('tab', next.tabGain);
+    mixer.setGain('mic', micGainFor(next, nextMicSettings));
+    if (deviceChanged) switchMicrophone(next.micId, nextMicSettings);
+  };
+
+  const handleMicSettingsChange = (next: MicSettings) => {
+    const processingChanged =
+      next.echoCancellation !== micSettings.echoCancellation ||
+      next.noiseSuppression !== micSettings.noiseSuppression ||
+      next.autoGainControl !== micSettings.autoGainControl;
+    setMicSettings(next);
+    saveMicSettings(audioConfig.micId, next);
+    mixerRef.current?.setGain('mic', micGainFor(audioConfig, next));
+
+    const track = micStreamRef.current?.getAudioTracks()[0];
+    if (track && processingChanged) {
+      track.applyConstraints(micConstraints(audioConfig.micId, next)).catch(err => {
+        console.error('Failed to apply microphone processing:', err);
+      });
+    }
+  };
+
+  const getAudioLevel = useCallback((source: 'mic' | 'tab') => mixerRef.current?.getLevel(source) ?? 0, []);
+
+  const handleSavePrompts = (modes: SuggestionMode[], settings: SuggestionSettings) => {
+    // Shortcuts set in the editor replace earlier rebindings of those modes
+    const bindings = { ...shortcutBindings };
+    modes.forEach(mode => delete bindings[modeCommandId(mode.id)]);
+    setShortcutBindings(bindings);
+    saveShortcutBindings(bindings);
+    setCustomModes(modes);
+    setSuggestionSettings(settings);
+    saveCustomModes(modes);
+    saveSuggestionSettings(settings);
+    setShowPromptEditor(false);
   };
 
+  // Only live capture has a stream; replays and finished meetings do not
+  const isRecording = !!stream && connectionState !== ConnectionState.DISCONNECTED;
+
+  // Keep the recording visible from the tab strip too
+  useEffect(() => {
+    const baseTitle = document.title.replace(/^(● REC|❚❚ Paused) · /, '');
+    document.title = isRecording ? `${isPaused ? '❚❚ Paused' : '● REC'} · ${baseTitle}` : baseTitle;
+  }, [isRecording, isPaused]);
+
+  // Shown in the main window and, when popped out, in the floating overlay
+  const suggestionCard = (
+    <SuggestionCard
+        suggestion={currentSuggestion}
+        isLoading={isGenerating}
+        onDismiss={() => setCurrentSuggestionId(null)}
+        canGenerate={connectionState === ConnectionState.CONNECTED && !isGenerating}
+        onRate={handleRateSuggestion}
+        onRegenerate={handleRegenerate}
+        onRewrite={handleRewrite}
+        onAlternatives={handleAlternatives}
+    />
+  );
+
   return (
     <div className="min-h-screen bg-slate-950 text-slate-200 flex flex-col items-center py-8 px-4">
-      
+      {isRecording && (
+        <div
+          role="status"
+          className={`fixed top-0 inset-x-0 z-40 text-center text-xs font-medium py-1 ${
+            isPaused ? 'bg-slate-700 text-slate-200' : 'bg-red-600 text-white'
+          }`}
+        >
+          {isPaused
+            ? '❚❚ Recording paused: nothing is being captured'
+            : '● Recording: your microphone and the meeting audio are being captured and sent to the assistant'}
+        </div>
+      )}
+
       {/* Header */}
-      <header className="mb-8 text-center max-w-2xl">
+      <header className="mb-8 text-center max-w-2xl relative w-full">
+        <div className="absolute right-0 top-0 flex gap-2">
+            <button
+                onClick={() => setShowPalette(true)}
+                className="text-xs bg-slate-800 hover:bg-slate-700 border border-slate-700 px-3 py-1.5 rounded-md text-slate-300 transition-colors"
+                title="Search commands and change keyboard shortcuts"
+            >
+                Commands
+                {commands.find(command => command.id === 'openPalette')?.shortcut && (
+                    <kbd className="ml-2 text-[10px] text-slate-500 font-mono">
+                        {commands.find(command => command.id === 'openPalette')?.shortcut}
+                    </kbd>
+                )}
+            </button>
+            <button
+                onClick={handleToggleOverlay}
+                disabled={!isPictureInPictureSupported()}
+                className="text-xs bg-slate-800 hover:bg-slate-700 border border-slate-700 px-3 py-1.5 rounded-md text-slate-300 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                title={isPictureInPictureSupported()
+                    ? 'Keep suggestions on top of the meeting tab'
+                    : 'Floating overlay needs a browser with Document Picture-in-Picture (Chrome or Edge)'}
+            >
+                {overlayWindow ? 'Close overlay' : 'Pop out'}
+            </button>
+            <button
+                onClick={() => setShowTranslationSettings(true)}
+                className="text-xs bg-slate-800 hover:bg-slate-700 border border-slate-700 px-3 py-1.5 rounded-md text-slate-300 transition-colors"
+            >
+                Language{translationSettings.targetLanguage ? ` · ${translationSettings.targetLanguage}` : ''}
+            </button>
+            <button
+                onClick={() => setShowKnowledgeBase(true)}
+                className="text-xs bg-slate-800 hover:bg-slate-700 border border-slate-700 px-3 py-1.5 rounded-md text-slate-300 transition-colors"
+            >
+                Knowledge{knowledgeDocuments.length > 0 ? ` · ${knowledgeDocuments.length}` : ''}
+            </button>
+            <button
+                onClick={() => setShowPrivacySettings(true)}
+                className="text-xs bg-slate-800 hover:bg-slate-700 border border-slate-700 px-3 py-1.5 rounded-md text-slate-300 transition-colors"
+            >
+                Privacy{redactionSettings.enabled ? ' · Redacting' : ''}
+            </button>
+            <button
+                onClick={() => setShowAudioSettings(true)}
+                className="text-xs bg-slate-800 hover:bg-slate-700 border border-slate-700 px-3 py-1.5 rounded-md text-slate-300 transition-colors"
+            >
+                Audio
+            </button>
+            <button
+                onClick={() => setShowHistory(true)}
+                className="text-xs bg-slate-800 hover:bg-slate-700 border border-slate-700 px-3 py-1.5 rounded-md text-slate-300 transition-colors"
+            >
+                History
+            </button>
+        </div>
         <h1 className="text-3xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-purple-400 mb-2">
           Meeting Assistant AI
         </h1>
@@ -187,22 +1079,39 @@ const App: React.FC = () => {
                          <div className="flex items-center gap-2">
                             <span className={`w-3 h-3 rounded-full ${
                                 connectionState === ConnectionState.CONNECTED ? 'bg-green-500 shadow-[0_0_10px_rgba(34,197,94,0.5)]' : 
-                                connectionState === ConnectionState.CONNECTING ? 'bg-yellow-500 animate-pulse' :
+                                connectionState === ConnectionState.CONNECTING || connectionState === ConnectionState.RECONNECTING ? 'bg-yellow-500 animate-pulse' :
                                 'bg-slate-600'
                             }`}></span>
                             <span className="font-semibold text-slate-300">
-                                {connectionState === ConnectionState.CONNECTED ? 'Listening Active' : 
-                                 connectionState === ConnectionState.CONNECTING ? 'Connecting...' : 'Ready to Start'}
+                                {connectionState === ConnectionState.CONNECTED && isPaused ? 'Paused' :
+                                 connectionState === ConnectionState.CONNECTED && replayProgress ? `Replaying ${formatClock(replayProgress.sentMs)} / ${formatClock(replayProgress.totalMs)}` :
+                                 connectionState === ConnectionState.CONNECTED ? 'Listening Active' : 
+                                 connectionState === ConnectionState.CONNECTING ? 'Connecting...' :
+                                 connectionState === ConnectionState.RECONNECTING ? 'Reconnecting...' : 'Ready to Start'}
                             </span>
                         </div>
                         {connectionState === ConnectionState.CONNECTED && (
-                             <span className="text-xs text-red-400 font-medium animate-pulse flex items-center gap-1">
-                                ● REC
+                             <span className="flex items-center gap-3 text-xs font-medium">
+                                {audioConfig.micMuted && <span className="text-slate-400">Mic muted</span>}
+                                {isPaused
+                                    ? <span className="text-slate-400">❚❚ Not listening</span>
+                                    : <span className="text-red-400 animate-pulse">● REC</span>}
+                             </span>
+                        )}
+                        {connectionState === ConnectionState.RECONNECTING && (
+                             <span className="text-xs text-yellow-400 font-medium">
+                                Audio is buffered until the connection is back
                              </span>
                         )}
                     </div>
                     
                     <AudioVisualizer stream={stream} isActive={connectionState === ConnectionState.CONNECTED} />
+                    {connectionState === ConnectionState.CONNECTED && <VoiceActivityIndicator activity={voiceActivity} />}
+                    {meeting?.telemetry && (
+                        <div className="mt-4">
+                            <DiagnosticsPanel telemetry={meeting.telemetry} rates={telemetryRates} onRatesChange={handleTelemetryRatesChange} />
+                        </div>
+                    )}
                 </div>
 
                 {/* Error Message */}
@@ -215,8 +1124,9 @@ const App: React.FC = () => {
                 {/* Actions */}
                 <div className="mt-6 flex gap-4">
                     {connectionState === ConnectionState.DISCONNECTED || connectionState === ConnectionState.ERROR ? (
+                        <>
                         <button 
-                            onClick={handleStartMeeting}
+                            onClick={requestStartMeeting}
                             className="flex-1 bg-blue-600 hover:bg-blue-500 text-white font-semibold py-3 px-4 rounded-lg transition-all shadow-lg hover:shadow-blue-500/25 flex items-center justify-center gap-2"
                         >
                             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
@@ -224,7 +1134,53 @@ const App: React.FC = () => {
                             </svg>
                             Start Meeting
                         </button>
+                        <button
+                            onClick={() => setShowBriefing(true)}
+                            className="bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-200 font-semibold py-3 px-4 rounded-lg transition-all flex items-center justify-center gap-2"
+                        >
+                            Briefing
+                            {!isBriefingEmpty(briefing) && (
+                                <span className="w-2 h-2 rounded-full bg-blue-400" title="Briefing will be sent with the meeting"></span>
+                            )}
+                        </button>
+                        <div className="flex items-stretch bg-slate-800 border border-slate-700 rounded-lg overflow-hidden">
+                            <label
+                                className="hover:bg-slate-700 text-slate-200 font-semibold py-3 px-4 transition-all flex items-center cursor-pointer"
+                                title="Run the assistant on a recorded meeting instead of live audio"
+                            >
+                                Replay file
+                                <input
+                                    type="file"
+                                    accept={REPLAY_FILE_ACCEPT}
+                                    className="hidden"
+                                    onChange={(e) => {
+                                        const file = e.target.files?.[0];
+                                        e.target.value = '';
+                                        if (file) handleReplayFile(file);
+                                    }}
+                                />
+                            </label>
+                            <select
+                                value={replaySpeed}
+                                onChange={(e) => setReplaySpeed(Number(e.target.value))}
+                                className="bg-slate-900/60 border-l border-slate-700 text-sm text-slate-300 px-2 focus:outline-none"
+                                aria-label="Replay speed"
+                            >
+                                {REPLAY_SPEEDS.map(speed => (
+                                    <option key={speed} value={speed}>{speed}×</option>
+                                ))}
+                            </select>
+                        </div>
+                        </>
                     ) : (
+                        <>
+                        <button
+                            onClick={handleTogglePause}
+                            className="bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-200 font-semibold py-3 px-4 rounded-lg transition-all"
+                            aria-pressed={isPaused}
+                        >
+                            {isPaused ? 'Resume' : 'Pause'}
+                        </button>
                         <button 
                             onClick={handleStopMeeting}
                             className="flex-1 bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold py-3 px-4 rounded-lg transition-all flex items-center justify-center gap-2"
@@ -234,6 +1190,7 @@ const App: React.FC = () => {
                             </svg>
                             End Meeting
                         </button>
+                        </>
                     )}
                 </div>
             </div>
@@ -241,7 +1198,7 @@ const App: React.FC = () => {
             {/* Sticky Action Button */}
             <div className="mt-auto">
                  <button 
-                    onClick={handleGenerateResponse}
+                    onClick={() => handleGenerateResponse()}
                     disabled={connectionState !== ConnectionState.CONNECTED || isGenerating}
                     className={`w-full py-4 rounded-xl font-bold text-lg shadow-xl transition-all flex items-center justify-center gap-3
                         ${connectionState === ConnectionState.CONNECTED 
@@ -263,25 +1220,218 @@ const App: React.FC = () => {
                         </>
                     )}
                 </button>
+                <div className="mt-3 space-y-2">
+                    <SuggestionModeBar
+                        modes={suggestionModes.filter(mode => mode.id !== DEFAULT_MODE_ID)}
+                        disabled={connectionState !== ConnectionState.CONNECTED || isGenerating}
+                        onSelect={(mode) => handleGenerateResponse(mode)}
+                        onCustomize={() => setShowPromptEditor(true)}
+                    />
+                    <div className="flex items-center gap-2 text-xs">
+                        <button
+                            onClick={() => handleAutoRulesChange({ ...autoRules, enabled: !autoRules.enabled })}
+                            className={`px-3 py-1.5 rounded-md border transition-colors flex items-center gap-2 ${
+                                autoRules.enabled
+                                    ? 'bg-emerald-900/30 border-emerald-700/50 text-emerald-200'
+                                    : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200'
+                            }`}
+                            aria-pressed={autoRules.enabled}
+                        >
+                            <span className={`w-2 h-2 rounded-full ${autoRules.enabled ? 'bg-emerald-400' : 'bg-slate-600'}`}></span>
+                            Auto-suggest {autoRules.enabled ? 'on' : 'off'}
+                        </button>
+                        <button
+                            onClick={() => setShowAutoSettings(true)}
+                            className="text-slate-400 hover:text-slate-200 transition-colors"
+                        >
+                            Triggers...
+                        </button>
+                        {autoNotice && (
+                            <span className="ml-auto text-emerald-300/80 animate-in fade-in duration-300 truncate" role="status">
+                                ⚡ {autoNotice}
+                            </span>
+                        )}
+                    </div>
+                </div>
             </div>
              
+             {/* Export the finished meeting */}
+             {currentSession?.endedAt && (
+                <ExportMenu session={currentSession} />
+             )}
+
              {/* Suggestion Display Area */}
              <div className="min-h-[120px]">
-                <SuggestionCard 
-                    suggestion={currentSuggestion} 
-                    isLoading={isGenerating} 
-                    onDismiss={() => setCurrentSuggestion(null)} 
-                />
+                {suggestionCard}
              </div>
         </div>
 
-        {/* Right Col: Transcript */}
-        <div className="lg:col-span-1 h-full">
-            <Transcript items={transcripts} />
+        {/* Right Col: Transcript / Suggestion history */}
+        <div className="lg:col-span-1 h-full flex flex-col gap-2">
+            <div className="flex gap-1 bg-slate-900 border border-slate-800 rounded-lg p-1 text-xs">
+                {(['transcript', 'suggestions'] as const).map(panel => (
+                    <button
+                        key={panel}
+                        onClick={() => setSidePanel(panel)}
+                        className={`flex-1 py-1.5 rounded-md transition-colors ${
+                            sidePanel === panel ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'
+                        }`}
+                    >
+                        {panel === 'transcript' ? 'Transcript' : `Suggestions (${suggestions.length})`}
+                    </button>
+                ))}
+            </div>
+            <div className="flex-1 min-h-0">
+                {sidePanel === 'transcript' ? (
+                    <Transcript
+                        items={transcripts}
+                        onTogglePin={(item) => setTranscripts(prev => togglePinned(prev, item.id))}
+                        speakerNames={meeting?.speakerNames}
+                        onRenameSpeaker={meeting ? handleRenameSpeaker : undefined}
+                    />
+                ) : (
+                    <SuggestionHistory
+                        suggestions={suggestions}
+                        transcript={transcripts}
+                        selectedId={currentSuggestionId}
+                        onSelect={(suggestion) => setCurrentSuggestionId(suggestion.id)}
+                        onRate={handleRateSuggestion}
+                    />
+                )}
+            </div>
         </div>
 
       </main>
       
+      {/* Post-meeting summary */}
+      {meeting?.endedAt && (
+        <section className="w-full max-w-4xl mt-6">
+            <MeetingSummaryPanel
+                summary={meeting.summary}
+                isGenerating={isSummarizing}
+                error={summaryError}
+                onChange={handleSummaryChange}
+                onRegenerate={transcripts.length > 0 ? handleGenerateSummary : undefined}
+            />
+        </section>
+      )}
+
+      {overlayWindow && (
+        <FloatingOverlay
+            overlayWindow={overlayWindow}
+            connectionState={connectionState}
+            isPaused={isPaused}
+            isRecording={isRecording}
+            transcript={transcripts}
+            speakerNames={meeting?.speakerNames}
+            isGenerating={isGenerating}
+            onSuggest={() => handleGenerateResponse()}
+        >
+            {suggestionCard}
+        </FloatingOverlay>
+      )}
+
+      {showPalette && (
+        <CommandPalette
+            commands={commands}
+            isEnabled={isCommandEnabled}
+            onRun={runCommand}
+            onRebind={handleRebind}
+            onClose={() => setShowPalette(false)}
+        />
+      )}
+
+      {showTranslationSettings && (
+        <TranslationSettingsPanel
+            settings={translationSettings}
+            onChange={handleTranslationSettingsChange}
+            onClose={() => setShowTranslationSettings(false)}
+        />
+      )}
+
+      {showPrivacySettings && (
+        <PrivacySettingsPanel
+            settings={redactionSettings}
+            onChange={handleRedactionSettingsChange}
+            consent={consentSettings}
+            onConsentChange={handleConsentChange}
+            onClose={() => setShowPrivacySettings(false)}
+        />
+      )}
+
+      {showKnowledgeBase && (
+        <KnowledgeBasePanel
+            documents={knowledgeDocuments}
+            index={knowledgeIndex}
+            settings={knowledgeSettings}
+            error={knowledgeError}
+            onSettingsChange={handleKnowledgeSettingsChange}
+            onImport={handleImportKnowledge}
+            onDelete={handleDeleteKnowledge}
+            onClose={() => setShowKnowledgeBase(false)}
+        />
+      )}
+
+      {showConsent && (
+        <ConsentDialog
+            settings={consentSettings}
+            onChange={handleConsentChange}
+            onConfirm={() => handleStartMeeting(auditEntry('consentGiven', consentSettings.announcement.trim()))}
+            onCancel={() => setShowConsent(false)}
+        />
+      )}
+
+      {showAutoSettings && (
+        <AutoSuggestSettings
+            rules={autoRules}
+            modes={suggestionModes}
+            onChange={handleAutoRulesChange}
+            onClose={() => setShowAutoSettings(false)}
+        />
+      )}
+
+      {showAudioSettings && (
+        <AudioSettingsPanel
+            config={audioConfig}
+            micSettings={micSettings}
+            getLevel={connectionState === ConnectionState.DISCONNECTED || connectionState === ConnectionState.ERROR ? undefined : getAudioLevel}
+            onConfigChange={handleAudioConfigChange}
+            onMicSettingsChange={handleMicSettingsChange}
+            onClose={() => setShowAudioSettings(false)}
+        />
+      )}
+
+      {showBriefing && (
+        <BriefingEditor
+            briefing={briefing}
+            templates={briefingTemplates}
+            onChange={handleBriefingChange}
+            onTemplatesChange={handleBriefingTemplatesChange}
+            onClose={() => setShowBriefing(false)}
+        />
+      )}
+
+      {showPromptEditor && (
+        <PromptTemplateEditor
+            customModes={applyModeBindings(customModes, shortcutBindings)}
+            settings={suggestionSettings}
+            takenShortcuts={commands
+                .filter(command => !customModes.some(mode => modeCommandId(mode.id) === command.id))
+                .map(command => command.shortcut)
+                .filter((shortcut): shortcut is string => !!shortcut)}
+            onSave={handleSavePrompts}
+            onClose={() => setShowPromptEditor(false)}
+        />
+      )}
+
+      {showHistory && (
+        <MeetingHistory
+            onClose={() => setShowHistory(false)}
+            onSessionEdited={handleSessionEdited}
+            onDeleted={(id) => setMeeting(prev => (prev?.id === id ? null : prev))}
+        />
+      )}
+
       <footer className="mt-8 text-slate-500 text-xs">
         <p>Uses Google Gemini 2.5 Flash Native Audio (Preview)</p>
         <p className="mt-1">Requires 'Tab Audio Sharing' permission for Google Meet integration.</p>
@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { AudioDeviceConfig, MicSettings } from '../types';
+import { listMicrophones, MAX_GAIN } from '../services/audioSettings';
+
+type LevelSource = 'mic' | 'tab';
+
+interface AudioSettingsPanelProps {
+  config: AudioDeviceConfig;
+  micSettings: MicSettings;
+  getLevel?: (source: LevelSource) => number; // Only available while a meeting is running
+  onConfigChange: (config: AudioDeviceConfig) => void;
+  onMicSettingsChange: (settings: MicSettings) => void;
+  onClose: () => void;
+}
+
+const labelClass = 'text-xs font-semibold text-slate-400 uppercase tracking-wider';
+
+const PROCESSING_OPTIONS: { key: 'echoCancellation' | 'noiseSuppression' | 'autoGainControl'; label: string }[] = [
+  { key: 'echoCancellation', label: 'Echo cancellation' },
+  { key: 'noiseSuppression', label: 'Noise suppression' },
+  { key: 'autoGainControl', label: 'Automatic gain control' },
+];
+
+const LevelMeter: React.FC<{ source: LevelSource; getLevel?: (source: LevelSource) => number }> = ({ source, getLevel }) => {
+  const [level, setLevel] = useState(0);
+
+  useEffect(() => {
+    if (!getLevel) return;
+    let frame = requestAnimationFrame(function tick() {
+      setLevel(getLevel(source));
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [getLevel, source]);
+
+  if (!getLevel) {
+    return <p className="text-[10px] text-slate-600 italic">Level meter is shown during a meeting.</p>;
+  }
+
+  // Scale RMS so normal speech fills most of the bar
+  const percent = Math.min(100, Math.round(Math.sqrt(level) * 140));
+  return (
+    <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+      <div
+        className={`h-full transition-[width] duration-75 ${percent > 90 ? 'bg-red-500' : 'bg-emerald-500'}`}
+        style={{ width: `${percent}%` }}
+      />
+    </div>
+  );
+};
+
+const AudioSettingsPanel: React.FC<AudioSettingsPanelProps> = ({
+  config,
+  micSettings,
+  getLevel,
+  onConfigChange,
+  onMicSettingsChange,
+  onClose,
+}) => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  useEffect(() => {
+    const refresh = () => {
+      listMicrophones().then(setDevices).catch(err => console.error('Failed to list microphones:', err));
+    };
+    refresh();
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, []);
+
+  const gainSlider = (value: number, onChange: (value: number) => void, label: string) => (
+    <div className="flex items-center gap-3">
+      <input
+        type="range"
+        min={0}
+        max={MAX_GAIN}
+        step={0.05}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="flex-1 accent-blue-500"
+        aria-label={label}
+      />
+      <span className="text-xs text-slate-400 w-12 text-right">{Math.round(value * 100)}%</span>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-lg max-h-[85vh] bg-slate-900 border border-slate-800 rounded-xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h2 className="font-semibold text-slate-200">Audio Settings</h2>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-white transition-colors"
+            aria-label="Close"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          {/* Microphone */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <span className={labelClass}>Microphone</span>
+              <label className="flex items-center gap-2 text-sm text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={config.micMuted}
+                  onChange={(e) => onConfigChange({ ...config, micMuted: e.target.checked })}
+                  className="accent-red-500"
+                />
+                Mute my mic
+              </label>
+            </div>
+            <select
+              value={config.micId ?? ''}
+              onChange={(e) => onConfigChange({ ...config, micId: e.target.value || undefined })}
+              className="w-full bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
+            >
+              <option value="">System default</option>
+              {devices
+                .filter(device => device.deviceId && device.deviceId !== 'default')
+                .map((device, i) => (
+                  <option key={device.deviceId} value={device.deviceId}>
+                    {device.label || `Microphone ${i + 1}`}
+                  </option>
+                ))}
+            </select>
+            {gainSlider(micSettings.gain, (gain) => onMicSettingsChange({ ...micSettings, gain }), 'Microphone gain')}
+            <LevelMeter source="mic" getLevel={getLevel} />
+            <div className="space-y-1.5">
+              {PROCESSING_OPTIONS.map(({ key, label }) => (
+                <label key={key} className="flex items-center gap-2 text-sm text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={micSettings[key]}
+                    onChange={(e) => onMicSettingsChange({ ...micSettings, [key]: e.target.checked })}
+                    className="accent-blue-500"
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+            <p className="text-[10px] text-slate-500">Gain and processing are saved for each microphone.</p>
+          </div>
+
+          {/* Tab audio */}
+          <div className="space-y-3">
+            <span className={labelClass}>Meeting tab audio</span>
+            {gainSlider(config.tabGain, (tabGain) => onConfigChange({ ...config, tabGain }), 'Tab audio gain')}
+            <LevelMeter source="tab" getLevel={getLevel} />
+          </div>
+
+          {/* Recording */}
+          <div className="space-y-1.5">
+            <span className={labelClass}>Recording</span>
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={config.recordAudio}
+                onChange={(e) => onConfigChange({ ...config, recordAudio: e.target.checked })}
+                className="accent-blue-500"
+              />
+              Keep a local recording of meetings
+            </label>
+            <p className="text-[10px] text-slate-500">
+              Stored in this browser with the transcript. Takes effect from the next meeting.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-end p-4 border-t border-slate-800">
+          <button
+            onClick={onClose}
+            className="text-sm bg-blue-600 hover:bg-blue-500 px-4 py-2 rounded-lg text-white font-semibold transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AudioSettingsPanel;
@@ -0,0 +1,130 @@
+import React from 'react';
+import { AutoSuggestRules } from '../services/autoSuggest';
+import { SuggestionMode } from '../services/suggestionModes';
+
+interface AutoSuggestSettingsProps {
+  rules: AutoSuggestRules;
+  modes: SuggestionMode[];
+  onChange: (rules: AutoSuggestRules) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:border-blue-500';
+const labelClass = 'text-xs font-semibold text-slate-400 uppercase tracking-wider';
+
+const splitList = (value: string) => value.split(',').map(term => term.trim()).filter(Boolean);
+
+const AutoSuggestSettings: React.FC<AutoSuggestSettingsProps> = ({ rules, modes, onChange, onClose }) => {
+  const update = (patch: Partial<AutoSuggestRules>) => onChange({ ...rules, ...patch });
+
+  const checkbox = (key: 'enabled' | 'onDirectQuestion' | 'onMyName' | 'onPauseAfterQuestion', label: string) => (
+    <label className="flex items-center gap-2 text-sm text-slate-300">
+      <input
+        type="checkbox"
+        checked={rules[key]}
+        onChange={(e) => update({ [key]: e.target.checked })}
+        className="accent-blue-500"
+      />
+      {label}
+    </label>
+  );
+
+  const seconds = (key: 'pauseMs' | 'cooldownMs', label: string) => (
+    <label className="flex items-center justify-between gap-2 text-sm text-slate-300">
+      {label}
+      <input
+        type="number"
+        min={0}
+        step={0.5}
+        value={rules[key] / 1000}
+        onChange={(e) => update({ [key]: Math.max(0, Number(e.target.value)) * 1000 })}
+        className={`${inputClass} w-20 text-right`}
+      />
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-lg max-h-[85vh] bg-slate-900 border border-slate-800 rounded-xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h2 className="font-semibold text-slate-200">Auto-suggest</h2>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-white transition-colors"
+            aria-label="Close"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-5">
+          <div className="space-y-1">
+            {checkbox('enabled', 'Suggest automatically when a trigger fires')}
+            <p className="text-[10px] text-slate-500">Only what the other participants say is checked.</p>
+          </div>
+
+          <div className="space-y-2">
+            <span className={labelClass}>Triggers</span>
+            {checkbox('onDirectQuestion', 'A question addressed to me ("Can you...?")')}
+            {checkbox('onMyName', 'My name is mentioned')}
+            <input
+              value={rules.myNames.join(', ')}
+              onChange={(e) => update({ myNames: splitList(e.target.value) })}
+              placeholder="My name(s), comma separated"
+              className={inputClass}
+            />
+            <input
+              value={rules.keywords.join(', ')}
+              onChange={(e) => update({ keywords: splitList(e.target.value) })}
+              placeholder="Keywords, comma separated (e.g. budget, deadline)"
+              className={inputClass}
+            />
+            {checkbox('onPauseAfterQuestion', 'Any question followed by a pause')}
+            {seconds('pauseMs', 'Pause length (seconds)')}
+          </div>
+
+          <div className="space-y-2">
+            <span className={labelClass}>Suggestion</span>
+            <select
+              value={rules.modeId}
+              onChange={(e) => update({ modeId: e.target.value })}
+              className={inputClass}
+            >
+              {modes.map(mode => (
+                <option key={mode.id} value={mode.id}>{mode.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <span className={labelClass}>Limits</span>
+            {seconds('cooldownMs', 'Cooldown between suggestions (seconds)')}
+            <label className="flex items-center justify-between gap-2 text-sm text-slate-300">
+              At most this many per {Math.round(rules.windowMs / 60000)} minutes
+              <input
+                type="number"
+                min={1}
+                value={rules.maxPerWindow}
+                onChange={(e) => update({ maxPerWindow: Math.max(1, Math.round(Number(e.target.value))) })}
+                className={`${inputClass} w-20 text-right`}
+              />
+            </label>
+          </div>
+        </div>
+
+        <div className="flex justify-end p-4 border-t border-slate-800">
+          <button
+            onClick={onClose}
+            className="text-sm bg-blue-600 hover:bg-blue-500 px-4 py-2 rounded-lg text-white font-semibold transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AutoSuggestSettings;
@@ -0,0 +1,245 @@
+import React, { useState } from 'react';
+import { MeetingBriefing, Participant } from '../types';
+import { BriefingTemplate, EMPTY_BRIEFING, readBriefingFile } from '../services/briefing';
+import { errorMessage } from '../services/errors';
+
+interface BriefingEditorProps {
+  briefing: MeetingBriefing;
+  templates: BriefingTemplate[];
+  onChange: (briefing: MeetingBriefing) => void;
+  onTemplatesChange: (templates: BriefingTemplate[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:border-blue-500';
+const labelClass = 'text-xs font-semibold text-slate-400 uppercase tracking-wider';
+
+const BriefingEditor: React.FC<BriefingEditorProps> = ({ briefing, templates, onChange, onTemplatesChange, onClose }) => {
+  const [selectedTemplateId, setSelectedTemplateId] = useState('');
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const updateParticipant = (index: number, patch: Partial<Participant>) => {
+    onChange({
+      ...briefing,
+      participants: briefing.participants.map((p, i) => (i === index ? { ...p, ...patch } : p)),
+    });
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    const documents = [...briefing.documents];
+    const errors: string[] = [];
+    for (const file of files) {
+      try {
+        documents.push(await readBriefingFile(file));
+      } catch (err) {
+        errors.push(errorMessage(err));
+      }
+    }
+    setErrorMsg(errors.length > 0 ? errors.join(' ') : null);
+    onChange({ ...briefing, documents });
+  };
+
+  const handleLoadTemplate = (id: string) => {
+    setSelectedTemplateId(id);
+    const template = templates.find(t => t.id === id);
+    if (template) onChange({ ...EMPTY_BRIEFING, ...template.briefing });
+  };
+
+  const handleSaveTemplate = () => {
+    const existing = templates.find(t => t.id === selectedTemplateId);
+    const name = window.prompt('Template name', existing?.name ?? 'Weekly sync');
+    if (!name?.trim()) return;
+
+    if (existing && existing.name === name.trim()) {
+      onTemplatesChange(templates.map(t => (t.id === existing.id ? { ...t, briefing } : t)));
+    } else {
+      const template: BriefingTemplate = { id: `briefing-${Date.now()}`, name: name.trim(), briefing };
+      onTemplatesChange([...templates, template]);
+      setSelectedTemplateId(template.id);
+    }
+  };
+
+  const handleDeleteTemplate = () => {
+    const template = templates.find(t => t.id === selectedTemplateId);
+    if (!template || !window.confirm(`Delete the template "${template.name}"?`)) return;
+    onTemplatesChange(templates.filter(t => t.id !== template.id));
+    setSelectedTemplateId('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-3xl max-h-[85vh] bg-slate-900 border border-slate-800 rounded-xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h2 className="font-semibold text-slate-200">Meeting Briefing</h2>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-white transition-colors"
+            aria-label="Close"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-5">
+          {/* Templates */}
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={selectedTemplateId}
+              onChange={(e) => handleLoadTemplate(e.target.value)}
+              className="bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
+            >
+              <option value="">Load a template...</option>
+              {templates.map(t => (
+                <option key={t.id} value={t.id}>{t.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleSaveTemplate}
+              className="text-xs bg-slate-800 hover:bg-slate-700 border border-slate-700 px-3 py-1.5 rounded-md text-slate-300 transition-colors"
+            >
+              Save as template
+            </button>
+            {selectedTemplateId && (
+              <button
+                onClick={handleDeleteTemplate}
+                className="text-xs bg-red-900/30 hover:bg-red-800/40 px-3 py-1.5 rounded-md text-red-300 transition-colors"
+              >
+                Delete template
+              </button>
+            )}
+            <button
+              onClick={() => onChange(EMPTY_BRIEFING)}
+              className="text-xs text-slate-400 hover:text-white ml-auto"
+            >
+              Clear
+            </button>
+          </div>
+
+          {errorMsg && (
+            <div className="p-3 bg-red-900/20 border border-red-800/50 rounded-lg text-red-300 text-sm">
+              {errorMsg}
+            </div>
+          )}
+
+          <label className="block">
+            <span className={labelClass}>Agenda</span>
+            <textarea
+              value={briefing.agenda}
+              onChange={(e) => onChange({ ...briefing, agenda: e.target.value })}
+              rows={3}
+              placeholder="1. Roadmap review&#10;2. Hiring update"
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <span className={labelClass}>Participants</span>
+              <button
+                onClick={() => onChange({ ...briefing, participants: [...briefing.participants, { name: '', role: '' }] })}
+                className="text-xs text-blue-400 hover:text-blue-300"
+              >
+                + Add
+              </button>
+            </div>
+            <div className="space-y-2">
+              {briefing.participants.map((participant, index) => (
+                <div key={index} className="flex gap-2">
+                  <input
+                    value={participant.name}
+                    onChange={(e) => updateParticipant(index, { name: e.target.value })}
+                    placeholder="Name"
+                    className={`${inputClass} flex-1`}
+                  />
+                  <input
+                    value={participant.role}
+                    onChange={(e) => updateParticipant(index, { role: e.target.value })}
+                    placeholder="Role"
+                    className={`${inputClass} flex-1`}
+                  />
+                  <button
+                    onClick={() => onChange({ ...briefing, participants: briefing.participants.filter((_, i) => i !== index) })}
+                    className="text-slate-500 hover:text-red-400 px-1"
+                    aria-label="Remove participant"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <label className="block">
+            <span className={labelClass}>My goals</span>
+            <textarea
+              value={briefing.goals}
+              onChange={(e) => onChange({ ...briefing, goals: e.target.value })}
+              rows={2}
+              placeholder="What do you want to get out of this meeting?"
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+
+          <label className="block">
+            <span className={labelClass}>Notes</span>
+            <textarea
+              value={briefing.notes}
+              onChange={(e) => onChange({ ...briefing, notes: e.target.value })}
+              rows={4}
+              placeholder="Paste background notes, previous decisions, key numbers..."
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <span className={labelClass}>Reference documents</span>
+              <label className="text-xs text-blue-400 hover:text-blue-300 cursor-pointer">
+                + Upload .txt / .md
+                <input type="file" multiple accept=".txt,.md,.markdown,text/plain,text/markdown" onChange={handleUpload} className="hidden" />
+              </label>
+            </div>
+            {briefing.documents.length === 0 ? (
+              <p className="text-slate-600 italic text-sm">No documents. For PDFs, upload the extracted text.</p>
+            ) : (
+              <ul className="space-y-1">
+                {briefing.documents.map((doc, index) => (
+                  <li key={index} className="flex items-center justify-between bg-slate-800/50 rounded-md px-3 py-1.5 text-sm">
+                    <span className="text-slate-300 truncate">{doc.name}</span>
+                    <span className="flex items-center gap-3 shrink-0">
+                      <span className="text-slate-500 text-xs">{doc.content.length.toLocaleString()} chars</span>
+                      <button
+                        onClick={() => onChange({ ...briefing, documents: briefing.documents.filter((_, i) => i !== index) })}
+                        className="text-slate-500 hover:text-red-400"
+                        aria-label={`Remove ${doc.name}`}
+                      >
+                        ✕
+                      </button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end p-4 border-t border-slate-800">
+          <button
+            onClick={onClose}
+            className="text-sm bg-blue-600 hover:bg-blue-500 px-4 py-2 rounded-lg text-white font-semibold transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BriefingEditor;
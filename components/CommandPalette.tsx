@@ -0,0 +1,163 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Command, CommandId, commandMatches, isBindableShortcut } from '../services/shortcuts';
+import { shortcutFromEvent } from '../services/suggestionModes';
+
+interface CommandPaletteProps {
+  commands: Command[];
+  isEnabled: (id: CommandId) => boolean;
+  onRun: (id: CommandId) => void;
+  onRebind: (id: CommandId, shortcut: string | null) => void;
+  onClose: () => void;
+}
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ commands, isEnabled, onRun, onRebind, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+  const [rebindingId, setRebindingId] = useState<CommandId | null>(null);
+  const [rebindError, setRebindError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const filtered = useMemo(() => commands.filter(command => commandMatches(command, query)), [commands, query]);
+
+  useEffect(() => {
+    setSelected(0);
+  }, [query]);
+
+  useEffect(() => {
+    if (!rebindingId) inputRef.current?.focus();
+  }, [rebindingId]);
+
+  const run = (command: Command) => {
+    if (!isEnabled(command.id)) return;
+    onClose();
+    onRun(command.id);
+  };
+
+  const captureShortcut = (e: React.KeyboardEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (!rebindingId) return;
+    if (e.key === 'Escape') {
+      setRebindingId(null);
+      setRebindError(null);
+      return;
+    }
+    if (e.key === 'Backspace' || e.key === 'Delete') {
+      onRebind(rebindingId, null);
+      setRebindingId(null);
+      setRebindError(null);
+      return;
+    }
+
+    const shortcut = shortcutFromEvent(e.nativeEvent);
+    if (!isBindableShortcut(shortcut)) {
+      if (!['Control', 'Alt', 'Shift', 'Meta'].includes(e.key)) {
+        setRebindError('Use Ctrl, Alt or Meta together with a key.');
+      }
+      return;
+    }
+    const taken = commands.find(command => command.shortcut === shortcut && command.id !== rebindingId);
+    if (taken) {
+      setRebindError(`${shortcut} is already used by "${taken.label}".`);
+      return;
+    }
+    onRebind(rebindingId, shortcut);
+    setRebindingId(null);
+    setRebindError(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (rebindingId) {
+      captureShortcut(e);
+      return;
+    }
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelected(prev => Math.min(prev + 1, filtered.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelected(prev => Math.max(prev - 1, 0));
+    } else if (e.key === 'Enter' && filtered[selected]) {
+      e.preventDefault();
+      run(filtered[selected]);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-sm flex items-start justify-center p-4 pt-[15vh]"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-lg bg-slate-900 border border-slate-800 rounded-xl shadow-2xl flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+        tabIndex={-1}
+      >
+        <input
+          ref={inputRef}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Type a command..."
+          className="w-full bg-transparent border-b border-slate-800 px-4 py-3 text-sm text-slate-200 placeholder-slate-500 focus:outline-none"
+          aria-label="Search commands"
+        />
+        {rebindingId && (
+          <div className="px-4 py-2 text-xs bg-blue-900/30 text-blue-200 border-b border-slate-800">
+            Press the new shortcut for "{commands.find(c => c.id === rebindingId)?.label}". Backspace removes it, Escape cancels.
+            {rebindError && <span className="block text-red-300 mt-1">{rebindError}</span>}
+          </div>
+        )}
+        <ul className="max-h-[50vh] overflow-y-auto py-1" role="listbox">
+          {filtered.length === 0 ? (
+            <li className="px-4 py-3 text-sm text-slate-500 italic">No matching commands.</li>
+          ) : (
+            filtered.map((command, index) => {
+              const enabled = isEnabled(command.id);
+              return (
+                <li
+                  key={command.id}
+                  role="option"
+                  aria-selected={index === selected}
+                  aria-disabled={!enabled}
+                  onMouseEnter={() => setSelected(index)}
+                  onClick={() => run(command)}
+                  className={`flex items-center gap-3 px-4 py-2 text-sm ${enabled ? 'cursor-pointer' : 'opacity-40'} ${
+                    index === selected ? 'bg-slate-800 text-white' : 'text-slate-300'
+                  }`}
+                >
+                  <span className="text-[10px] uppercase tracking-wider text-slate-500 w-20 shrink-0">{command.group}</span>
+                  <span className="flex-1 truncate">{command.label}</span>
+                  {command.shortcut && (
+                    <kbd className="text-[10px] text-slate-400 font-mono bg-slate-800 border border-slate-700 rounded px-1.5 py-0.5">
+                      {command.shortcut}
+                    </kbd>
+                  )}
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setRebindError(null);
+                      setRebindingId(command.id);
+                      (e.currentTarget.closest('[tabindex]') as HTMLElement | null)?.focus();
+                    }}
+                    className="text-[10px] text-slate-500 hover:text-slate-200 transition-colors"
+                  >
+                    {rebindingId === command.id ? 'Press keys...' : 'Rebind'}
+                  </button>
+                </li>
+              );
+            })
+          )}
+        </ul>
+        <div className="px-4 py-2 text-[10px] text-slate-500 border-t border-slate-800">
+          ↑↓ to select · Enter to run · Esc to close
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
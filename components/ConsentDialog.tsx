@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { ConsentSettings } from '../services/consent';
+
+interface ConsentDialogProps {
+  settings: ConsentSettings;
+  onChange: (settings: ConsentSettings) => void;
+  onConfirm: () => void; // Only offered once the notice has been acknowledged
+  onCancel: () => void;
+}
+
+const labelClass = 'text-xs font-semibold text-slate-400 uppercase tracking-wider';
+
+// Shown before live capture starts: the participants have to be told, and the user confirms they were
+const ConsentDialog: React.FC<ConsentDialogProps> = ({ settings, onChange, onConfirm, onCancel }) => {
+  const [acknowledged, setAcknowledged] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(settings.announcement)
+      .then(() => setCopied(true))
+      .catch(err => console.error('Failed to copy the announcement:', err));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-lg max-h-[85vh] bg-slate-900 border border-slate-800 rounded-xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h2 className="font-semibold text-slate-200">Before you start recording</h2>
+          <button
+            onClick={onCancel}
+            className="text-slate-400 hover:text-white transition-colors"
+            aria-label="Close"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-5">
+          <p className="text-sm text-slate-300">
+            The assistant captures your microphone and the meeting audio and streams both to a cloud model.
+            Some jurisdictions require everyone on the call to agree to this first.
+          </p>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className={labelClass}>Announcement</span>
+              <button
+                onClick={handleCopy}
+                className="text-xs bg-slate-800 hover:bg-slate-700 border border-slate-700 px-2 py-1 rounded-md text-slate-300 transition-colors"
+              >
+                {copied ? 'Copied' : 'Copy'}
+              </button>
+            </div>
+            <textarea
+              value={settings.announcement}
+              onChange={(e) => {
+                setCopied(false);
+                onChange({ ...settings, announcement: e.target.value });
+              }}
+              rows={4}
+              className="w-full bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-blue-500 resize-y"
+            />
+            <p className="text-[10px] text-slate-500">Paste it into the meeting chat or read it out. Edits are kept for next time.</p>
+          </div>
+
+          <label className="flex items-start gap-2 text-sm text-slate-200">
+            <input
+              type="checkbox"
+              checked={acknowledged}
+              onChange={(e) => setAcknowledged(e.target.checked)}
+              className="accent-blue-500 mt-1"
+            />
+            I have told everyone in the meeting that it is being recorded and transcribed, and they agreed.
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t border-slate-800">
+          <button
+            onClick={onCancel}
+            className="text-sm bg-slate-800 hover:bg-slate-700 border border-slate-700 px-4 py-2 rounded-lg text-slate-300 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={!acknowledged || !settings.announcement.trim()}
+            className="text-sm bg-blue-600 hover:bg-blue-500 px-4 py-2 rounded-lg text-white font-semibold transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Start Meeting
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConsentDialog;
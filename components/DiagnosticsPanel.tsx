@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { MeetingTelemetry, TranscriptSource } from '../types';
+import { summarizeTelemetry, TelemetryRates } from '../services/telemetry';
+
+interface DiagnosticsPanelProps {
+  telemetry: MeetingTelemetry;
+  rates: TelemetryRates;
+  onRatesChange?: (rates: TelemetryRates) => void; // Rates are only editable when set
+}
+
+const formatSeconds = (seconds: number) => {
+  const whole = Math.round(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+const formatLatency = (ms: number | null) => (ms === null ? '–' : `${(ms / 1000).toFixed(2)}s`);
+
+const formatCost = (amount: number, currency: string) => {
+  try {
+    return amount.toLocaleString(undefined, { style: 'currency', currency, maximumFractionDigits: 4 });
+  } catch {
+    return `${amount.toFixed(4)} ${currency}`; // Unknown currency code
+  }
+};
+
+const rateInputClass = 'w-20 bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-blue-500';
+
+// Collapsible per-meeting totals of what was streamed to the assistant and how fast it answered
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ telemetry, rates, onRatesChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const summary = summarizeTelemetry(telemetry, rates);
+
+  const rows: [string, string][] = [
+    [
+      'Audio sent',
+      `${formatSeconds(summary.audioSeconds)} (mic ${formatSeconds(telemetry.audioMsSent[TranscriptSource.ME] / 1000)}, meeting ${formatSeconds(telemetry.audioMsSent[TranscriptSource.REMOTE] / 1000)})`,
+    ],
+    ['Messages received', String(telemetry.messagesReceived)],
+    ['Tokens in / out', `${summary.inputTokens.toLocaleString()}${summary.inputTokensEstimated ? ' (est.)' : ''} / ${summary.outputTokens.toLocaleString()}`],
+    ['Suggestions', String(summary.suggestionCount)],
+    ['First token (avg)', formatLatency(summary.averageFirstTokenMs)],
+    ['Complete (avg / slowest)', `${formatLatency(summary.averageLastTokenMs)} / ${formatLatency(summary.slowestLastTokenMs)}`],
+    ['Reconnects', String(telemetry.reconnects)],
+    ['Errors', String(telemetry.errors)],
+  ];
+
+  const updateRate = (patch: Partial<TelemetryRates>) => onRatesChange?.({ ...rates, ...patch });
+
+  return (
+    <div className="text-xs">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-slate-400 hover:text-slate-200 transition-colors"
+        aria-expanded={isOpen}
+      >
+        {isOpen ? '▾' : '▸'} Diagnostics · {formatCost(summary.estimatedCost, rates.currency)}
+      </button>
+      {isOpen && (
+        <div className="mt-2 space-y-3">
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1">
+            {rows.map(([label, value]) => (
+              <React.Fragment key={label}>
+                <dt className="text-slate-500">{label}</dt>
+                <dd className="text-slate-300 tabular-nums">{value}</dd>
+              </React.Fragment>
+            ))}
+            <dt className="text-slate-500">Estimated cost</dt>
+            <dd className="text-slate-200 font-semibold tabular-nums">{formatCost(summary.estimatedCost, rates.currency)}</dd>
+          </dl>
+          {telemetry.lastError && <p className="text-red-400 break-words">Last error: {telemetry.lastError}</p>}
+          {onRatesChange && (
+            <div className="flex flex-wrap items-center gap-2 text-slate-400">
+              <span>Per 1M tokens: in</span>
+              <input
+                type="number"
+                min={0}
+                step={0.01}
+                value={rates.inputPerMillionTokens}
+                onChange={(e) => updateRate({ inputPerMillionTokens: Math.max(0, Number(e.target.value)) })}
+                className={rateInputClass}
+                aria-label="Input rate per million tokens"
+              />
+              <span>out</span>
+              <input
+                type="number"
+                min={0}
+                step={0.01}
+                value={rates.outputPerMillionTokens}
+                onChange={(e) => updateRate({ outputPerMillionTokens: Math.max(0, Number(e.target.value)) })}
+                className={rateInputClass}
+                aria-label="Output rate per million tokens"
+              />
+              <input
+                value={rates.currency}
+                onChange={(e) => updateRate({ currency: e.target.value.toUpperCase().slice(0, 3) })}
+                className="w-14 bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-blue-500"
+                aria-label="Currency"
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
@@ -0,0 +1,30 @@
+import React from 'react';
+import { MeetingSession } from '../types';
+import { downloadSession, EXPORT_FORMATS, ExportFormat } from '../services/meetingExport';
+
+interface ExportMenuProps {
+  session: MeetingSession;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ session }) => {
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      <span className="text-xs text-slate-500 uppercase tracking-wider">Export</span>
+      {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+        <button
+          key={format}
+          onClick={() => downloadSession(session, format)}
+          disabled={session.transcript.length === 0}
+          className="text-xs bg-slate-800 hover:bg-slate-700 border border-slate-700 px-3 py-1.5 rounded-md text-slate-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 20 20" fill="currentColor">
+            <path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" />
+          </svg>
+          {EXPORT_FORMATS[format].label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ExportMenu;
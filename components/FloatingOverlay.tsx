@@ -0,0 +1,92 @@
+import React, { useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { ConnectionState, TranscriptionItem, TranscriptSource } from '../types';
+import { speakerName } from '../services/speakerDiarization';
+
+// Number of spoken lines shown in the overlay's transcript tail
+const TAIL_LENGTH = 4;
+
+interface FloatingOverlayProps {
+  overlayWindow: Window;
+  connectionState: ConnectionState;
+  isPaused: boolean;
+  isRecording: boolean; // Live capture is running, as opposed to a replay or no meeting
+  transcript: TranscriptionItem[];
+  speakerNames?: Record<string, string>;
+  isGenerating: boolean;
+  onSuggest: () => void;
+  children: React.ReactNode; // The suggestion card, wired up by the app
+}
+
+const STATUS: Record<ConnectionState, { label: string; dot: string }> = {
+  [ConnectionState.CONNECTED]: { label: 'Listening', dot: 'bg-green-500' },
+  [ConnectionState.CONNECTING]: { label: 'Connecting...', dot: 'bg-yellow-500 animate-pulse' },
+  [ConnectionState.RECONNECTING]: { label: 'Reconnecting...', dot: 'bg-yellow-500 animate-pulse' },
+  [ConnectionState.DISCONNECTED]: { label: 'Not in a meeting', dot: 'bg-slate-600' },
+  [ConnectionState.ERROR]: { label: 'Connection error', dot: 'bg-red-500' },
+};
+
+/**
+ * Compact always-on-top view of the assistant, rendered into a Document Picture-in-Picture
+ * window so it stays visible over the meeting tab. It is part of the app's React tree, so it
+ * always shows the same state as the main window.
+ */
+const FloatingOverlay: React.FC<FloatingOverlayProps> = ({
+  overlayWindow,
+  connectionState,
+  isPaused,
+  isRecording,
+  transcript,
+  speakerNames,
+  isGenerating,
+  onSuggest,
+  children,
+}) => {
+  const tailRef = useRef<HTMLDivElement>(null);
+  const tail = transcript.filter(item => item.source !== TranscriptSource.ASSISTANT && item.text).slice(-TAIL_LENGTH);
+  const status = isPaused && connectionState === ConnectionState.CONNECTED
+    ? { label: 'Paused', dot: 'bg-slate-400' }
+    : STATUS[connectionState];
+
+  useEffect(() => {
+    if (tailRef.current) tailRef.current.scrollTop = tailRef.current.scrollHeight;
+  }, [transcript]);
+
+  return createPortal(
+    <div className="h-screen bg-slate-950 text-slate-200 flex flex-col gap-3 p-3 overflow-y-auto">
+      <div className="flex items-center gap-2 text-xs">
+        <span className={`w-2.5 h-2.5 rounded-full ${status.dot}`}></span>
+        <span className="font-semibold text-slate-300">{status.label}</span>
+        {isRecording && !isPaused && <span className="ml-auto text-red-400 font-medium animate-pulse">● REC</span>}
+      </div>
+
+      <div ref={tailRef} className="max-h-32 overflow-y-auto space-y-1.5 text-xs">
+        {tail.length === 0 ? (
+          <p className="text-slate-600 italic">Nothing said yet.</p>
+        ) : (
+          tail.map(item => (
+            <p key={item.id} className={item.isComplete ? 'text-slate-300' : 'text-slate-400'}>
+              <span className={`font-semibold mr-1 ${item.source === TranscriptSource.ME ? 'text-blue-300' : 'text-slate-500'}`}>
+                {item.source === TranscriptSource.ME ? 'Me' : item.speaker ? speakerName(item.speaker, speakerNames) : 'Them'}:
+              </span>
+              {item.text}
+            </p>
+          ))
+        )}
+      </div>
+
+      <button
+        onClick={onSuggest}
+        disabled={connectionState !== ConnectionState.CONNECTED || isGenerating}
+        className="w-full py-2.5 rounded-lg font-bold text-sm bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-500 hover:to-indigo-500 text-white transition-all disabled:from-slate-800 disabled:to-slate-800 disabled:text-slate-500 disabled:cursor-not-allowed"
+      >
+        {isGenerating ? 'Generating...' : 'Suggest Response'}
+      </button>
+
+      {children}
+    </div>,
+    overlayWindow.document.body
+  );
+};
+
+export default FloatingOverlay;
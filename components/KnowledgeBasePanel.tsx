@@ -0,0 +1,167 @@
+import React, { useMemo, useState } from 'react';
+import { KnowledgeDocument } from '../types';
+import {
+  Bm25Index,
+  chunkDocument,
+  KnowledgeSettings,
+  MAX_PASSAGES_LIMIT,
+} from '../services/knowledgeBase';
+
+interface KnowledgeBasePanelProps {
+  documents: KnowledgeDocument[];
+  index: Bm25Index;
+  settings: KnowledgeSettings;
+  error: string | null;
+  onSettingsChange: (settings: KnowledgeSettings) => void;
+  onImport: (files: File[]) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-blue-500';
+const labelClass = 'text-xs font-semibold text-slate-400 uppercase tracking-wider';
+
+const KnowledgeBasePanel: React.FC<KnowledgeBasePanelProps> = ({
+  documents,
+  index,
+  settings,
+  error,
+  onSettingsChange,
+  onImport,
+  onDelete,
+  onClose,
+}) => {
+  const [query, setQuery] = useState('');
+  const chunkCounts = useMemo(
+    () => new Map(documents.map(document => [document.id, chunkDocument(document).length])),
+    [documents]
+  );
+  const results = query.trim() ? index.search(query, settings.maxPassages) : [];
+  const update = (patch: Partial<KnowledgeSettings>) => onSettingsChange({ ...settings, ...patch });
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-lg max-h-[85vh] bg-slate-900 border border-slate-800 rounded-xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h2 className="font-semibold text-slate-200">Knowledge Base</h2>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-white transition-colors"
+            aria-label="Close"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-5">
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={settings.enabled}
+                onChange={(e) => update({ enabled: e.target.checked })}
+                className="accent-blue-500"
+              />
+              Ground suggestions in these documents
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              Attach up to
+              <select
+                value={settings.maxPassages}
+                onChange={(e) => update({ maxPassages: Number(e.target.value) })}
+                disabled={!settings.enabled}
+                className="bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-sm text-slate-200 focus:outline-none"
+              >
+                {Array.from({ length: MAX_PASSAGES_LIMIT }, (_, i) => i + 1).map(count => (
+                  <option key={count} value={count}>{count}</option>
+                ))}
+              </select>
+              passages per suggestion
+            </label>
+            <p className="text-[10px] text-slate-500">
+              The passages that best match the last few lines of the conversation are added to the request,
+              and the suggestion names the document it used. Everything stays in this browser until then.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className={labelClass}>Documents</span>
+              <label className="text-xs bg-slate-800 hover:bg-slate-700 border border-slate-700 px-3 py-1.5 rounded-md text-slate-300 transition-colors cursor-pointer">
+                Import .md / .txt
+                <input
+                  type="file"
+                  accept=".md,.markdown,.txt,text/plain,text/markdown"
+                  multiple
+                  className="hidden"
+                  onChange={(e) => {
+                    const files = Array.from(e.target.files ?? []);
+                    e.target.value = '';
+                    if (files.length > 0) onImport(files);
+                  }}
+                />
+              </label>
+            </div>
+            {error && <p className="text-xs text-red-400">{error}</p>}
+            {documents.length === 0 ? (
+              <p className="text-sm text-slate-600 italic">No documents yet. Import pricing sheets, specs or policies.</p>
+            ) : (
+              <ul className="space-y-1">
+                {documents.map(document => (
+                  <li key={document.id} className="flex items-center gap-2 text-sm bg-slate-800/50 rounded-md px-2 py-1.5">
+                    <span className="flex-1 min-w-0 truncate text-slate-200" title={document.name}>{document.name}</span>
+                    <span className="text-[10px] text-slate-500 shrink-0">{chunkCounts.get(document.id) ?? 0} passages</span>
+                    <button
+                      onClick={() => onDelete(document.id)}
+                      className="text-xs text-slate-400 hover:text-red-400 transition-colors"
+                      aria-label={`Remove ${document.name}`}
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className="text-[10px] text-slate-500">Importing a file with the same name replaces the earlier copy.</p>
+          </div>
+
+          {documents.length > 0 && (
+            <div className="space-y-2">
+              <span className={labelClass}>Try a question</span>
+              <input
+                type="search"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="e.g. What does the enterprise plan cost?"
+                className={inputClass}
+              />
+              {query.trim() && results.length === 0 && <p className="text-xs text-slate-500">Nothing matches.</p>}
+              {results.map(({ chunk, score }) => (
+                <div key={chunk.id} className="text-xs bg-slate-800/50 rounded-md p-2 space-y-1">
+                  <div className="flex justify-between gap-2 text-slate-400">
+                    <span className="truncate">{chunk.documentName}{chunk.heading ? ` › ${chunk.heading}` : ''}</span>
+                    <span className="shrink-0 tabular-nums">{score.toFixed(2)}</span>
+                  </div>
+                  <p className="text-slate-300 line-clamp-3 whitespace-pre-line">{chunk.text}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end p-4 border-t border-slate-800">
+          <button
+            onClick={onClose}
+            className="text-sm bg-blue-600 hover:bg-blue-500 px-4 py-2 rounded-lg text-white font-semibold transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KnowledgeBasePanel;
@@ -0,0 +1,319 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { MeetingSession, MeetingSummary, SessionEdit, SuggestionRating, TranscriptionItem } from '../types';
+import { deleteSession, listSessions, renameSession, saveSession, sessionMatches } from '../services/sessionStore';
+import { parseJson } from '../services/meetingExport';
+import { errorMessage } from '../services/errors';
+import { togglePinned } from '../services/transcriptSearch';
+import { AUDIT_EVENT_LABELS } from '../services/consent';
+import { loadTelemetryRates } from '../services/telemetry';
+import Transcript from './Transcript';
+import RecordingPlayback from './RecordingPlayback';
+import ExportMenu from './ExportMenu';
+import MeetingSummaryPanel from './MeetingSummaryPanel';
+import SuggestionHistory from './SuggestionHistory';
+import DiagnosticsPanel from './DiagnosticsPanel';
+
+interface MeetingHistoryProps {
+  onClose: () => void;
+  onSessionEdited: (id: string, edit: SessionEdit) => void; // After a rename or edit, so the app can update the current meeting
+  onDeleted: (id: string) => void;
+}
+
+const formatDuration = (session: MeetingSession) => {
+  if (!session.endedAt) return 'In progress';
+  const minutes = Math.max(1, Math.round((session.endedAt - session.startedAt) / 60000));
+  return `${minutes} min`;
+};
+
+const MeetingHistory: React.FC<MeetingHistoryProps> = ({ onClose, onSessionEdited, onDeleted }) => {
+  const [sessions, setSessions] = useState<MeetingSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [openSessionId, setOpenSessionId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [telemetryRates] = useState(loadTelemetryRates);
+  const [detailPanel, setDetailPanel] = useState<'transcript' | 'suggestions' | 'audit'>('transcript');
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch((err) => {
+        console.error('Failed to load meeting history:', err);
+        setErrorMsg('Could not load saved meetings.');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const filtered = useMemo(() => sessions.filter(s => sessionMatches(s, query)), [sessions, query]);
+  const openSession = sessions.find(s => s.id === openSessionId) || null;
+
+  const startRename = (session: MeetingSession) => {
+    setEditingId(session.id);
+    setDraftTitle(session.title);
+  };
+
+  const commitRename = async () => {
+    if (!editingId) return;
+    const title = draftTitle.trim();
+    setEditingId(null);
+    if (!title) return;
+
+    try {
+      const renamed = await renameSession(editingId, title);
+      if (renamed) {
+        setSessions(prev => prev.map(s => (s.id === renamed.id ? renamed : s)));
+        onSessionEdited(renamed.id, { field: 'title', title: renamed.title });
+      }
+    } catch (err) {
+      console.error('Failed to rename meeting:', err);
+      setErrorMsg('Could not rename the meeting.');
+    }
+  };
+
+  const handleDelete = async (session: MeetingSession) => {
+    if (!window.confirm(`Delete "${session.title}"? This cannot be undone.`)) return;
+
+    try {
+      await deleteSession(session.id);
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+      if (openSessionId === session.id) setOpenSessionId(null);
+      onDeleted(session.id);
+    } catch (err) {
+      console.error('Failed to delete meeting:', err);
+      setErrorMsg('Could not delete the meeting.');
+    }
+  };
+
+  const updateSession = (updated: MeetingSession, edit: SessionEdit) => {
+    setSessions(prev => prev.map(s => (s.id === updated.id ? updated : s)));
+    onSessionEdited(updated.id, edit);
+    saveSession(updated).catch((err) => {
+      console.error('Failed to save meeting:', err);
+      setErrorMsg('Could not save your changes.');
+    });
+  };
+
+  const handleSummaryChange = (session: MeetingSession, summary: MeetingSummary) => {
+    updateSession({ ...session, summary }, { field: 'summary', summary });
+  };
+
+  const handleRate = (session: MeetingSession, id: string, rating: SuggestionRating | undefined) => {
+    updateSession(
+      { ...session, suggestions: session.suggestions.map(s => (s.id === id ? { ...s, rating } : s)) },
+      { field: 'rating', suggestionId: id, rating }
+    );
+  };
+
+  const handleTogglePin = (session: MeetingSession, item: TranscriptionItem) => {
+    const transcript = togglePinned(session.transcript, item.id);
+    const pinned = transcript.find(t => t.id === item.id)?.pinned;
+    updateSession({ ...session, transcript }, { field: 'pinned', itemId: item.id, pinned });
+  };
+
+  const handleRenameSpeaker = (session: MeetingSession, speaker: string, name: string) => {
+    updateSession(
+      { ...session, speakerNames: { ...session.speakerNames, [speaker]: name } },
+      { field: 'speakerName', speaker, name }
+    );
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+
+    try {
+      const session = parseJson(await file.text());
+      await saveSession(session);
+      setSessions(prev => [session, ...prev.filter(s => s.id !== session.id)].sort((a, b) => b.startedAt - a.startedAt));
+      setErrorMsg(null);
+    } catch (err) {
+      console.error('Failed to import meeting:', err);
+      setErrorMsg(`Could not import "${file.name}": ${errorMessage(err)}`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-4xl h-[80vh] bg-slate-900 border border-slate-800 rounded-xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <div className="flex items-center gap-3">
+            {openSession && (
+              <button
+                onClick={() => setOpenSessionId(null)}
+                className="text-slate-400 hover:text-white text-sm"
+              >
+                ← Back
+              </button>
+            )}
+            <h2 className="font-semibold text-slate-200">
+              {openSession ? openSession.title : 'Meeting History'}
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-white transition-colors"
+            aria-label="Close history"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {errorMsg && (
+          <div className="m-4 p-3 bg-red-900/20 border border-red-800/50 rounded-lg text-red-300 text-sm">
+            {errorMsg}
+          </div>
+        )}
+
+        {openSession ? (
+          <div className="flex-1 min-h-0 p-4 flex flex-col gap-3">
+            <ExportMenu session={openSession} />
+            {openSession.telemetry && <DiagnosticsPanel telemetry={openSession.telemetry} rates={telemetryRates} />}
+            <div className="flex-1 min-h-0 grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <div className="min-h-0 overflow-y-auto">
+                <MeetingSummaryPanel
+                  summary={openSession.summary}
+                  isGenerating={false}
+                  error={null}
+                  onChange={(summary) => handleSummaryChange(openSession, summary)}
+                />
+              </div>
+              <div className="min-h-0 flex flex-col gap-2">
+                <div className="flex gap-1 bg-slate-800/50 rounded-lg p-1 text-xs">
+                  {(openSession.auditLog?.length ? ['transcript', 'suggestions', 'audit'] as const : ['transcript', 'suggestions'] as const).map(panel => (
+                    <button
+                      key={panel}
+                      onClick={() => setDetailPanel(panel)}
+                      className={`flex-1 py-1.5 rounded-md transition-colors ${
+                        detailPanel === panel ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'
+                      }`}
+                    >
+                      {panel === 'transcript' ? 'Transcript' : panel === 'audit' ? 'Audit log' : `Suggestions (${openSession.suggestions.length})`}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex-1 min-h-0">
+                  {detailPanel === 'transcript' ? (
+                    openSession.recording ? (
+                      <RecordingPlayback
+                        session={openSession}
+                        onTogglePin={(item) => handleTogglePin(openSession, item)}
+                        onRenameSpeaker={(speaker, name) => handleRenameSpeaker(openSession, speaker, name)}
+                      />
+                    ) : (
+                      <Transcript
+                        items={openSession.transcript}
+                        title="Saved Transcript"
+                        onTogglePin={(item) => handleTogglePin(openSession, item)}
+                        speakerNames={openSession.speakerNames}
+                        onRenameSpeaker={(speaker, name) => handleRenameSpeaker(openSession, speaker, name)}
+                      />
+                    )
+                  ) : detailPanel === 'audit' && openSession.auditLog ? (
+                    <ol className="h-full overflow-y-auto space-y-2 text-xs bg-slate-900/50 rounded-xl border border-slate-800 p-4">
+                      {openSession.auditLog.map((entry, i) => (
+                        <li key={i}>
+                          <span className="text-slate-500 mr-2">{new Date(entry.at).toLocaleString()}</span>
+                          <span className="text-slate-200">{AUDIT_EVENT_LABELS[entry.type]}</span>
+                          {entry.detail && <p className="mt-1 text-slate-400 italic">“{entry.detail}”</p>}
+                        </li>
+                      ))}
+                    </ol>
+                  ) : (
+                    <SuggestionHistory
+                      suggestions={openSession.suggestions}
+                      transcript={openSession.transcript}
+                      onRate={(id, rating) => handleRate(openSession, id, rating)}
+                    />
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 flex flex-col p-4 gap-3">
+            <div className="flex gap-2">
+              <input
+                type="search"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search titles and transcripts..."
+                className="flex-1 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:border-blue-500"
+              />
+              <label className="text-xs bg-slate-800 hover:bg-slate-700 border border-slate-700 px-3 py-2 rounded-lg text-slate-300 transition-colors cursor-pointer flex items-center">
+                Import JSON
+                <input type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+              </label>
+            </div>
+            <div className="flex-1 overflow-y-auto space-y-2">
+              {isLoading ? (
+                <div className="text-center text-slate-500 text-sm mt-10">Loading...</div>
+              ) : filtered.length === 0 ? (
+                <div className="text-center text-slate-600 italic text-sm mt-10">
+                  {sessions.length === 0 ? 'No saved meetings yet.' : 'No meetings match your search.'}
+                </div>
+              ) : (
+                filtered.map(session => (
+                  <div
+                    key={session.id}
+                    className="flex items-center justify-between gap-3 bg-slate-800/50 border border-slate-700/50 rounded-lg px-4 py-3"
+                  >
+                    <div className="flex-1 min-w-0">
+                      {editingId === session.id ? (
+                        <input
+                          autoFocus
+                          value={draftTitle}
+                          onChange={(e) => setDraftTitle(e.target.value)}
+                          onBlur={commitRename}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') commitRename();
+                            if (e.key === 'Escape') setEditingId(null);
+                          }}
+                          className="w-full bg-slate-900 border border-blue-500 rounded px-2 py-1 text-sm text-slate-200 focus:outline-none"
+                        />
+                      ) : (
+                        <button
+                          onClick={() => {
+                            setOpenSessionId(session.id);
+                            setDetailPanel('transcript');
+                          }}
+                          className="text-left w-full"
+                        >
+                          <div className="text-slate-200 font-medium truncate">{session.title}</div>
+                          <div className="text-slate-500 text-xs mt-0.5">
+                            {new Date(session.startedAt).toLocaleString()} · {formatDuration(session)} · {session.transcript.length} lines
+                            {session.recording && ' · recorded'}
+                          </div>
+                        </button>
+                      )}
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <button
+                        onClick={() => startRename(session)}
+                        className="text-xs bg-slate-700/50 hover:bg-slate-600/50 px-3 py-1.5 rounded-md text-slate-200 transition-colors"
+                      >
+                        Rename
+                      </button>
+                      <button
+                        onClick={() => handleDelete(session)}
+                        className="text-xs bg-red-900/30 hover:bg-red-800/40 px-3 py-1.5 rounded-md text-red-300 transition-colors"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MeetingHistory;
@@ -0,0 +1,172 @@
+import React from 'react';
+import { ActionItem, MeetingSummary } from '../types';
+
+interface MeetingSummaryPanelProps {
+  summary: MeetingSummary | undefined;
+  isGenerating: boolean;
+  error: string | null;
+  onChange: (summary: MeetingSummary) => void;
+  onRegenerate?: () => void;
+}
+
+interface ListSectionProps {
+  title: string;
+  items: string[];
+  placeholder: string;
+  onChange: (items: string[]) => void;
+}
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:border-indigo-500';
+
+const RemoveButton: React.FC<{ onClick: () => void }> = ({ onClick }) => (
+  <button
+    onClick={onClick}
+    className="text-slate-500 hover:text-red-400 transition-colors shrink-0"
+    aria-label="Remove"
+  >
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+    </svg>
+  </button>
+);
+
+const SectionTitle: React.FC<{ title: string; onAdd?: () => void }> = ({ title, onAdd }) => (
+  <div className="flex items-center justify-between mb-2">
+    <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">{title}</h4>
+    {onAdd && (
+      <button onClick={onAdd} className="text-xs text-indigo-400 hover:text-indigo-300">
+        + Add
+      </button>
+    )}
+  </div>
+);
+
+const ListSection: React.FC<ListSectionProps> = ({ title, items, placeholder, onChange }) => (
+  <div>
+    <SectionTitle title={title} onAdd={() => onChange([...items, ''])} />
+    {items.length === 0 ? (
+      <p className="text-slate-600 italic text-sm">None recorded.</p>
+    ) : (
+      <div className="space-y-2">
+        {items.map((item, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              value={item}
+              placeholder={placeholder}
+              onChange={(e) => onChange(items.map((existing, i) => (i === index ? e.target.value : existing)))}
+              className={inputClass}
+            />
+            <RemoveButton onClick={() => onChange(items.filter((_, i) => i !== index))} />
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+const MeetingSummaryPanel: React.FC<MeetingSummaryPanelProps> = ({ summary, isGenerating, error, onChange, onRegenerate }) => {
+  const updateActionItem = (index: number, patch: Partial<ActionItem>) => {
+    if (!summary) return;
+    onChange({
+      ...summary,
+      actionItems: summary.actionItems.map((item, i) => (i === index ? { ...item, ...patch } : item)),
+    });
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 shadow-xl">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold text-slate-300">Meeting Summary</h3>
+        {onRegenerate && !isGenerating && (
+          <button
+            onClick={onRegenerate}
+            className="text-xs bg-slate-800 hover:bg-slate-700 border border-slate-700 px-3 py-1.5 rounded-md text-slate-300 transition-colors"
+          >
+            {summary ? 'Regenerate' : 'Generate'}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-900/20 border border-red-800/50 rounded-lg text-red-300 text-sm">
+          {error}
+        </div>
+      )}
+
+      {isGenerating ? (
+        <div className="flex items-center space-x-3 text-indigo-200">
+          <div className="w-5 h-5 border-2 border-indigo-400 border-t-transparent rounded-full animate-spin"></div>
+          <span className="font-medium">Summarizing the meeting...</span>
+        </div>
+      ) : summary ? (
+        <div className="space-y-5">
+          <div>
+            <SectionTitle title="Overview" />
+            <textarea
+              value={summary.overview}
+              onChange={(e) => onChange({ ...summary, overview: e.target.value })}
+              rows={3}
+              className={inputClass}
+            />
+          </div>
+
+          <ListSection
+            title="Decisions"
+            items={summary.decisions}
+            placeholder="Decision"
+            onChange={(decisions) => onChange({ ...summary, decisions })}
+          />
+
+          <div>
+            <SectionTitle
+              title="Action Items"
+              onAdd={() => onChange({ ...summary, actionItems: [...summary.actionItems, { task: '' }] })}
+            />
+            {summary.actionItems.length === 0 ? (
+              <p className="text-slate-600 italic text-sm">None recorded.</p>
+            ) : (
+              <div className="space-y-2">
+                {summary.actionItems.map((item, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <input
+                      value={item.task}
+                      placeholder="Task"
+                      onChange={(e) => updateActionItem(index, { task: e.target.value })}
+                      className={`${inputClass} flex-[3]`}
+                    />
+                    <input
+                      value={item.owner ?? ''}
+                      placeholder="Owner"
+                      onChange={(e) => updateActionItem(index, { owner: e.target.value || undefined })}
+                      className={`${inputClass} flex-1`}
+                    />
+                    <input
+                      value={item.dueDate ?? ''}
+                      placeholder="Due"
+                      onChange={(e) => updateActionItem(index, { dueDate: e.target.value || undefined })}
+                      className={`${inputClass} flex-1`}
+                    />
+                    <RemoveButton
+                      onClick={() => onChange({ ...summary, actionItems: summary.actionItems.filter((_, i) => i !== index) })}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <ListSection
+            title="Open Questions"
+            items={summary.openQuestions}
+            placeholder="Question"
+            onChange={(openQuestions) => onChange({ ...summary, openQuestions })}
+          />
+        </div>
+      ) : (
+        <p className="text-slate-600 italic text-sm">No summary yet.</p>
+      )}
+    </div>
+  );
+};
+
+export default MeetingSummaryPanel;
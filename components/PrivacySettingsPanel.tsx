@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { ConsentSettings, DEFAULT_ANNOUNCEMENT } from '../services/consent';
+import {
+  DETECTOR_LABELS,
+  MASK_STYLE_LABELS,
+  MaskStyle,
+  RedactionDetector,
+  RedactionSettings,
+  redactText,
+  validatePattern,
+} from '../services/redaction';
+
+interface PrivacySettingsPanelProps {
+  settings: RedactionSettings;
+  onChange: (settings: RedactionSettings) => void;
+  consent: ConsentSettings;
+  onConsentChange: (consent: ConsentSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-blue-500';
+const labelClass = 'text-xs font-semibold text-slate-400 uppercase tracking-wider';
+
+const SAMPLE_TEXT = 'Reach me at jane.doe@example.com or +1 415 555 2671.';
+
+const PrivacySettingsPanel: React.FC<PrivacySettingsPanelProps> = ({ settings, onChange, consent, onConsentChange, onClose }) => {
+  const [sample, setSample] = useState(SAMPLE_TEXT);
+  const update = (patch: Partial<RedactionSettings>) => onChange({ ...settings, ...patch });
+  const patternErrors = settings.patterns
+    .map((source, line) => ({ line: line + 1, error: source.trim() ? validatePattern(source) : null }))
+    .filter(({ error }) => error);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-lg max-h-[85vh] bg-slate-900 border border-slate-800 rounded-xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h2 className="font-semibold text-slate-200">Privacy</h2>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-white transition-colors"
+            aria-label="Close"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-5">
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={consent.required}
+                onChange={(e) => onConsentChange({ ...consent, required: e.target.checked })}
+                className="accent-blue-500"
+              />
+              Ask for consent before each meeting
+            </label>
+            <div className="flex items-center justify-between">
+              <span className={labelClass}>Recording notice</span>
+              {consent.announcement !== DEFAULT_ANNOUNCEMENT && (
+                <button
+                  onClick={() => onConsentChange({ ...consent, announcement: DEFAULT_ANNOUNCEMENT })}
+                  className="text-[10px] text-slate-400 hover:text-slate-200 transition-colors"
+                >
+                  Reset to default
+                </button>
+              )}
+            </div>
+            <textarea
+              value={consent.announcement}
+              onChange={(e) => onConsentChange({ ...consent, announcement: e.target.value })}
+              rows={3}
+              className={`${inputClass} resize-y`}
+            />
+            <p className="text-[10px] text-slate-500">
+              Shown with a copy button before live capture starts. The acknowledgement and capture times are saved with the meeting.
+            </p>
+          </div>
+
+          <div className="space-y-2 pt-4 border-t border-slate-800">
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={settings.enabled}
+                onChange={(e) => update({ enabled: e.target.checked })}
+                className="accent-blue-500"
+              />
+              Redact personal information
+            </label>
+            <p className="text-[10px] text-slate-500">
+              Finished lines are masked before they are saved, exported or used in suggestion and summary prompts.
+              The meeting audio itself is still sent to the assistant.
+            </p>
+          </div>
+
+          <fieldset disabled={!settings.enabled} className="space-y-5 disabled:opacity-50">
+            <div className="space-y-2">
+              <span className={labelClass}>Detect</span>
+              {(Object.keys(DETECTOR_LABELS) as RedactionDetector[]).map(detector => (
+                <label key={detector} className="flex items-center gap-2 text-sm text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={settings.detectors[detector]}
+                    onChange={(e) => update({ detectors: { ...settings.detectors, [detector]: e.target.checked } })}
+                    className="accent-blue-500"
+                  />
+                  {DETECTOR_LABELS[detector]}
+                </label>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <span className={labelClass}>Terms</span>
+              <textarea
+                value={settings.terms.join('\n')}
+                onChange={(e) => update({ terms: e.target.value.split('\n') })}
+                rows={3}
+                placeholder={'Project Falcon\nAcme Corp'}
+                className={`${inputClass} resize-y`}
+              />
+              <p className="text-[10px] text-slate-500">One per line. Matched as whole words, ignoring case.</p>
+            </div>
+
+            <div className="space-y-2">
+              <span className={labelClass}>Patterns</span>
+              <textarea
+                value={settings.patterns.join('\n')}
+                onChange={(e) => update({ patterns: e.target.value.split('\n') })}
+                rows={3}
+                placeholder={'ACCT-\\d{6}'}
+                className={`${inputClass} resize-y font-mono`}
+                spellCheck={false}
+              />
+              {patternErrors.length > 0 ? (
+                patternErrors.map(({ line, error }) => (
+                  <p key={line} className="text-[10px] text-red-400">Line {line} is skipped: {error}</p>
+                ))
+              ) : (
+                <p className="text-[10px] text-slate-500">One regular expression per line, matched ignoring case.</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <span className={labelClass}>Mask with</span>
+              <select
+                value={settings.style}
+                onChange={(e) => update({ style: e.target.value as MaskStyle })}
+                className={inputClass}
+              >
+                {(Object.keys(MASK_STYLE_LABELS) as MaskStyle[]).map(style => (
+                  <option key={style} value={style}>{MASK_STYLE_LABELS[style]}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              <span className={labelClass}>Try it</span>
+              <input value={sample} onChange={(e) => setSample(e.target.value)} className={inputClass} />
+              <p className="text-sm text-slate-300 bg-slate-800/50 rounded-md px-2 py-1.5 break-words">
+                {redactText(sample, settings) || ' '}
+              </p>
+            </div>
+          </fieldset>
+        </div>
+
+        <div className="flex justify-end p-4 border-t border-slate-800">
+          <button
+            onClick={onClose}
+            className="text-sm bg-blue-600 hover:bg-blue-500 px-4 py-2 rounded-lg text-white font-semibold transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PrivacySettingsPanel;
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import {
+  createCustomMode,
+  SuggestionMode,
+  SuggestionSettings,
+  TEMPLATE_VARIABLES,
+} from '../services/suggestionModes';
+
+interface PromptTemplateEditorProps {
+  customModes: SuggestionMode[];
+  settings: SuggestionSettings;
+  takenShortcuts: string[]; // Shortcuts used by the built-in modes
+  onSave: (customModes: SuggestionMode[], settings: SuggestionSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:border-indigo-500';
+
+const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ customModes, settings, takenShortcuts, onSave, onClose }) => {
+  const [modes, setModes] = useState<SuggestionMode[]>(customModes);
+  const [draftSettings, setDraftSettings] = useState<SuggestionSettings>(settings);
+
+  const updateMode = (id: string, patch: Partial<SuggestionMode>) => {
+    setModes(prev => prev.map(mode => (mode.id === id ? { ...mode, ...patch } : mode)));
+  };
+
+  const shortcutConflict = (mode: SuggestionMode) =>
+    !!mode.shortcut &&
+    (takenShortcuts.includes(mode.shortcut) || modes.some(other => other.id !== mode.id && other.shortcut === mode.shortcut));
+
+  const hasConflicts = modes.some(shortcutConflict);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-3xl max-h-[85vh] bg-slate-900 border border-slate-800 rounded-xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h2 className="font-semibold text-slate-200">Suggestion Prompts</h2>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-white transition-colors"
+            aria-label="Close"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          <section className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <label className="text-xs text-slate-400 md:col-span-2">
+              Meeting goal
+              <input
+                value={draftSettings.meetingGoal}
+                onChange={(e) => setDraftSettings({ ...draftSettings, meetingGoal: e.target.value })}
+                placeholder="e.g. Get sign-off on the Q3 budget"
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="text-xs text-slate-400">
+              Turns of context (N)
+              <input
+                type="number"
+                min={1}
+                max={50}
+                value={draftSettings.lastTurnCount}
+                onChange={(e) => setDraftSettings({ ...draftSettings, lastTurnCount: Math.max(1, Number(e.target.value) || 1) })}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="text-xs text-slate-400 md:col-span-3">
+              My role
+              <input
+                value={draftSettings.myRole}
+                onChange={(e) => setDraftSettings({ ...draftSettings, myRole: e.target.value })}
+                placeholder="e.g. Engineering manager for the billing team"
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+          </section>
+
+          <section>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Custom prompts</h3>
+              <button
+                onClick={() => setModes(prev => [...prev, createCustomMode()])}
+                className="text-xs text-indigo-400 hover:text-indigo-300"
+              >
+                + Add prompt
+              </button>
+            </div>
+            {modes.length === 0 ? (
+              <p className="text-slate-600 italic text-sm">No custom prompts yet.</p>
+            ) : (
+              <div className="space-y-4">
+                {modes.map(mode => (
+                  <div key={mode.id} className="bg-slate-800/40 border border-slate-700/50 rounded-lg p-3 space-y-2">
+                    <div className="flex gap-2">
+                      <input
+                        value={mode.label}
+                        onChange={(e) => updateMode(mode.id, { label: e.target.value })}
+                        placeholder="Button label"
+                        className={`${inputClass} flex-[3]`}
+                      />
+                      <input
+                        value={mode.shortcut ?? ''}
+                        onChange={(e) => updateMode(mode.id, { shortcut: e.target.value.trim() || undefined })}
+                        placeholder="Shortcut, e.g. Alt+7"
+                        className={`${inputClass} flex-1 ${shortcutConflict(mode) ? 'border-red-500' : ''}`}
+                      />
+                      <button
+                        onClick={() => setModes(prev => prev.filter(other => other.id !== mode.id))}
+                        className="text-xs bg-red-900/30 hover:bg-red-800/40 px-3 rounded-md text-red-300 transition-colors"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                    <textarea
+                      value={mode.template}
+                      onChange={(e) => updateMode(mode.id, { template: e.target.value })}
+                      rows={3}
+                      className={`${inputClass} font-mono text-xs`}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          <section className="text-xs text-slate-500">
+            <h3 className="font-semibold text-slate-400 uppercase tracking-wider mb-2">Template variables</h3>
+            <ul className="space-y-1">
+              {TEMPLATE_VARIABLES.map(variable => (
+                <li key={variable.name}>
+                  <code className="text-indigo-300">{`{{${variable.name}}}`}</code> – {variable.description}
+                </li>
+              ))}
+            </ul>
+          </section>
+        </div>
+
+        <div className="flex items-center justify-end gap-3 p-4 border-t border-slate-800">
+          {hasConflicts && <span className="text-xs text-red-400 mr-auto">Some shortcuts are already in use.</span>}
+          <button
+            onClick={onClose}
+            className="text-sm px-4 py-2 rounded-lg text-slate-300 hover:text-white transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(modes.filter(mode => mode.label.trim() && mode.template.trim()), draftSettings)}
+            disabled={hasConflicts}
+            className="text-sm bg-indigo-600 hover:bg-indigo-500 px-4 py-2 rounded-lg text-white font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplateEditor;
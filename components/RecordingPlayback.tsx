@@ -0,0 +1,103 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { MeetingSession, TranscriptionItem } from '../types';
+import { getRecording } from '../services/sessionStore';
+import { itemOffsets } from '../services/meetingClock';
+import Transcript from './Transcript';
+
+interface RecordingPlaybackProps {
+  session: MeetingSession;
+  onTogglePin?: (item: TranscriptionItem) => void;
+  onRenameSpeaker?: (speaker: string, name: string) => void;
+}
+
+// Transcription lags behind speech, so seeking starts a little before the line's offset
+const SEEK_LEAD_MS = 1500;
+
+// Saved transcript with the meeting recording: click a line to seek, the playing line is highlighted
+const RecordingPlayback: React.FC<RecordingPlaybackProps> = ({ session, onTogglePin, onRenameSpeaker }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [positionMs, setPositionMs] = useState<number | null>(null);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    let url: string | null = null;
+    let cancelled = false;
+    getRecording(session.id)
+      .then(recording => {
+        if (cancelled) return;
+        if (!recording) {
+          setErrorMsg('The recording for this meeting is missing.');
+          return;
+        }
+        url = URL.createObjectURL(recording.audio);
+        setAudioUrl(url);
+      })
+      .catch(err => {
+        console.error('Failed to load recording:', err);
+        if (!cancelled) setErrorMsg('Could not load the recording.');
+      });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [session.id]);
+
+  const timeline = useMemo(
+    () =>
+      session.transcript
+        .map(item => ({ item, start: itemOffsets(item, session.startedAt).start }))
+        .sort((a, b) => a.start - b.start),
+    [session]
+  );
+
+  // The last line that started before the (lead-adjusted) playback position
+  const activeItemId = useMemo(() => {
+    if (positionMs === null) return null;
+    let active: TranscriptionItem | null = null;
+    for (const entry of timeline) {
+      if (entry.start - SEEK_LEAD_MS > positionMs) break;
+      active = entry.item;
+    }
+    return active?.id ?? null;
+  }, [timeline, positionMs]);
+
+  const handleSeek = (item: TranscriptionItem) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    const start = itemOffsets(item, session.startedAt).start;
+    audio.currentTime = Math.max(0, start - SEEK_LEAD_MS) / 1000;
+    audio.play().catch(err => console.error('Playback failed:', err));
+  };
+
+  return (
+    <div className="flex flex-col h-full gap-2">
+      {errorMsg ? (
+        <p className="text-xs text-red-400">{errorMsg}</p>
+      ) : (
+        audioUrl && (
+          <audio
+            ref={audioRef}
+            src={audioUrl}
+            controls
+            className="w-full h-9"
+            onTimeUpdate={(e) => setPositionMs(e.currentTarget.currentTime * 1000)}
+          />
+        )
+      )}
+      <div className="flex-1 min-h-0">
+        <Transcript
+          items={session.transcript}
+          title="Saved Transcript · click a line to play it"
+          activeItemId={activeItemId}
+          onItemClick={audioUrl ? handleSeek : undefined}
+          onTogglePin={onTogglePin}
+          speakerNames={session.speakerNames}
+          onRenameSpeaker={onRenameSpeaker}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default RecordingPlayback;
@@ -0,0 +1,42 @@
+import React, { useState } from 'react';
+
+interface SpeakerNamesProps {
+  speakers: string[]; // Labels in the order they first spoke
+  names: Record<string, string>;
+  onRename: (speaker: string, name: string) => void;
+}
+
+// Collapsible list of the detected speakers, each with a field for the participant's name
+const SpeakerNames: React.FC<SpeakerNamesProps> = ({ speakers, names, onRename }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  if (speakers.length === 0) return null;
+
+  return (
+    <div className="text-xs">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-slate-400 hover:text-slate-200 transition-colors"
+        aria-expanded={isOpen}
+      >
+        {isOpen ? '▾' : '▸'} Speakers ({speakers.length})
+      </button>
+      {isOpen && (
+        <div className="mt-2 space-y-1.5">
+          {speakers.map(speaker => (
+            <label key={speaker} className="flex items-center gap-2">
+              <span className="text-slate-500 w-20 shrink-0">{speaker}</span>
+              <input
+                value={names[speaker] ?? ''}
+                onChange={(e) => onRename(speaker, e.target.value)}
+                placeholder="Participant name"
+                className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-200 placeholder-slate-500 focus:outline-none focus:border-blue-500"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SpeakerNames;
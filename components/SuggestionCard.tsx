@@ -1,14 +1,46 @@
 import React from 'react';
-import { TranscriptionItem } from '../types';
+import { SuggestionRating, SuggestionRecord } from '../types';
+import { REWRITE_STYLES, RewriteStyle } from '../services/suggestionHistory';
+import { citedDocuments } from '../services/knowledgeBase';
 
 interface SuggestionCardProps {
-  suggestion: TranscriptionItem | null;
+  suggestion: SuggestionRecord | null;
   onDismiss: () => void;
   isLoading: boolean;
+  canGenerate: boolean; // False when the assistant is not connected
+  onRate: (id: string, rating: SuggestionRating | undefined) => void;
+  onRegenerate: (suggestion: SuggestionRecord) => void;
+  onRewrite: (suggestion: SuggestionRecord, style: RewriteStyle) => void;
+  onAlternatives: (suggestion: SuggestionRecord) => void;
 }
 
-const SuggestionCard: React.FC<SuggestionCardProps> = ({ suggestion, onDismiss, isLoading }) => {
+const actionClass = 'text-xs bg-indigo-700/50 hover:bg-indigo-600/50 px-3 py-1.5 rounded-md text-indigo-100 transition-colors flex items-center gap-1 disabled:opacity-40 disabled:cursor-not-allowed';
+
+const SuggestionCard: React.FC<SuggestionCardProps> = ({
+  suggestion,
+  onDismiss,
+  isLoading,
+  canGenerate,
+  onRate,
+  onRegenerate,
+  onRewrite,
+  onAlternatives,
+}) => {
   if (!suggestion && !isLoading) return null;
+  const sources = suggestion?.isComplete ? citedDocuments(suggestion.text, suggestion.knowledgeDocuments) : [];
+
+  const rateButton = (rating: SuggestionRating, label: string, icon: string) => (
+    <button
+        onClick={() => suggestion && onRate(suggestion.id, suggestion.rating === rating ? undefined : rating)}
+        className={`text-sm px-2 py-1 rounded-md transition-colors ${
+            suggestion?.rating === rating ? 'bg-indigo-500/60' : 'bg-indigo-900/40 hover:bg-indigo-700/50 opacity-70'
+        }`}
+        aria-label={label}
+        aria-pressed={suggestion?.rating === rating}
+    >
+        {icon}
+    </button>
+  );
 
   return (
     <div className="mt-4 bg-gradient-to-r from-indigo-900/80 to-purple-900/80 border border-indigo-500/50 rounded-xl p-5 shadow-lg relative animate-in fade-in slide-in-from-bottom-4 duration-300">
@@ -17,16 +49,16 @@ const SuggestionCard: React.FC<SuggestionCardProps> = ({ suggestion, onDismiss,
                 <div className="w-5 h-5 border-2 border-indigo-400 border-t-transparent rounded-full animate-spin"></div>
                 <span className="font-medium">Generating suggestion...</span>
             </div>
-        ) : (
+        ) : suggestion && (
             <>
                 <div className="flex justify-between items-start mb-2">
                     <h3 className="text-indigo-300 text-xs font-bold uppercase tracking-wider flex items-center gap-2">
                         <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
                             <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" />
                         </svg>
-                        Suggested Response
+                        {suggestion.trigger}
                     </h3>
-                    <button 
+                    <button
                         onClick={onDismiss}
                         className="text-indigo-400 hover:text-white transition-colors"
                         aria-label="Dismiss"
@@ -37,12 +69,24 @@ const SuggestionCard: React.FC<SuggestionCardProps> = ({ suggestion, onDismiss,
                     </button>
                 </div>
                 <p className="text-white text-lg font-medium leading-relaxed">
-                    "{suggestion?.text}"
+                    "{suggestion.text}"
                 </p>
-                <div className="mt-3 flex gap-2">
-                    <button 
-                        onClick={() => navigator.clipboard.writeText(suggestion?.text || '')}
-                        className="text-xs bg-indigo-700/50 hover:bg-indigo-600/50 px-3 py-1.5 rounded-md text-indigo-100 transition-colors flex items-center gap-1"
+                {suggestion.backTranslation && (
+                    <p className="mt-1 text-sm text-indigo-200/80 italic">{suggestion.backTranslation}</p>
+                )}
+                {sources.length > 0 && (
+                    <p className="mt-2 flex flex-wrap gap-1 text-[10px] text-indigo-200">
+                        {sources.map(source => (
+                            <span key={source} className="bg-indigo-950/60 border border-indigo-500/30 rounded px-1.5 py-0.5" title="Cited from the knowledge base">
+                                📄 {source}
+                            </span>
+                        ))}
+                    </p>
+                )}
+                <div className="mt-3 flex flex-wrap gap-2 items-center">
+                    <button
+                        onClick={() => navigator.clipboard.writeText(suggestion.text)}
+                        className={actionClass}
                     >
                          <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 20 20" fill="currentColor">
                             <path d="M8 3a1 1 0 011-1h2a1 1 0 110 2H9a1 1 0 01-1-1z" />
@@ -50,6 +94,34 @@ const SuggestionCard: React.FC<SuggestionCardProps> = ({ suggestion, onDismiss,
                         </svg>
                         Copy
                     </button>
+                    <button
+                        onClick={() => onRegenerate(suggestion)}
+                        disabled={!canGenerate || !suggestion.prompt}
+                        className={actionClass}
+                    >
+                        Regenerate
+                    </button>
+                    <button
+                        onClick={() => onAlternatives(suggestion)}
+                        disabled={!canGenerate || !suggestion.prompt}
+                        className={actionClass}
+                    >
+                        3 alternatives
+                    </button>
+                    {(Object.keys(REWRITE_STYLES) as RewriteStyle[]).map(style => (
+                        <button
+                            key={style}
+                            onClick={() => onRewrite(suggestion, style)}
+                            disabled={!canGenerate}
+                            className={actionClass}
+                        >
+                            {REWRITE_STYLES[style].label}
+                        </button>
+                    ))}
+                    <div className="ml-auto flex gap-1">
+                        {rateButton('up', 'Useful', '👍')}
+                        {rateButton('down', 'Not useful', '👎')}
+                    </div>
                 </div>
             </>
         )}
@@ -57,4 +129,4 @@ const SuggestionCard: React.FC<SuggestionCardProps> = ({ suggestion, onDismiss,
   );
 };
 
-export default SuggestionCard;
\ No newline at end of file
+export default SuggestionCard;
@@ -0,0 +1,79 @@
+import React from 'react';
+import { SuggestionRating, SuggestionRecord, TranscriptionItem } from '../types';
+
+interface SuggestionHistoryProps {
+  suggestions: SuggestionRecord[];
+  transcript: TranscriptionItem[];
+  selectedId?: string | null;
+  onSelect?: (suggestion: SuggestionRecord) => void;
+  onRate: (id: string, rating: SuggestionRating | undefined) => void;
+}
+
+const QUOTE_LENGTH = 60;
+
+const SuggestionHistory: React.FC<SuggestionHistoryProps> = ({ suggestions, transcript, selectedId, onSelect, onRate }) => {
+  const quoteFor = (suggestion: SuggestionRecord) => {
+    const anchor = transcript.find(item => item.id === suggestion.anchorItemId);
+    if (!anchor) return null;
+    return anchor.text.length > QUOTE_LENGTH ? `${anchor.text.slice(0, QUOTE_LENGTH)}…` : anchor.text;
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-slate-900/50 rounded-xl border border-slate-800 overflow-hidden">
+      <div className="p-3 bg-slate-800/50 border-b border-slate-700">
+        <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Suggestion History</h3>
+      </div>
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {suggestions.length === 0 ? (
+          <div className="text-center text-slate-600 italic text-sm mt-10">
+            No suggestions yet.
+          </div>
+        ) : (
+          [...suggestions].reverse().map(suggestion => {
+            const quote = quoteFor(suggestion);
+            return (
+              <div
+                key={suggestion.id}
+                onClick={() => onSelect?.(suggestion)}
+                className={`rounded-lg px-3 py-2 text-sm border transition-colors ${onSelect ? 'cursor-pointer' : ''} ${
+                  selectedId === suggestion.id
+                    ? 'bg-indigo-600/20 border-indigo-500/50'
+                    : 'bg-slate-800/50 border-slate-700/50 hover:border-slate-600'
+                }`}
+              >
+                <div className="flex items-center justify-between text-[10px] text-slate-400 mb-1">
+                  <span className="font-semibold uppercase tracking-wider text-indigo-300">{suggestion.trigger}</span>
+                  <span>{new Date(suggestion.createdAt).toLocaleTimeString()}</span>
+                </div>
+                <p className="text-slate-200">{suggestion.text}</p>
+                <div className="flex items-center justify-between mt-2">
+                  <span className="text-[10px] text-slate-500 truncate" title={quote ?? undefined}>
+                    After line {suggestion.transcriptIndex}{quote ? `: "${quote}"` : ''}
+                  </span>
+                  <span className="flex gap-1 shrink-0 ml-2">
+                    {(['up', 'down'] as SuggestionRating[]).map(rating => (
+                      <button
+                        key={rating}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onRate(suggestion.id, suggestion.rating === rating ? undefined : rating);
+                        }}
+                        className={`text-xs px-1.5 rounded transition-opacity ${suggestion.rating === rating ? 'opacity-100 bg-slate-700' : 'opacity-40 hover:opacity-80'}`}
+                        aria-label={rating === 'up' ? 'Useful' : 'Not useful'}
+                        aria-pressed={suggestion.rating === rating}
+                      >
+                        {rating === 'up' ? '👍' : '👎'}
+                      </button>
+                    ))}
+                  </span>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SuggestionHistory;
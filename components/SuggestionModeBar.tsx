@@ -0,0 +1,38 @@
+import React from 'react';
+import { SuggestionMode } from '../services/suggestionModes';
+
+interface SuggestionModeBarProps {
+  modes: SuggestionMode[];
+  disabled: boolean;
+  onSelect: (mode: SuggestionMode) => void;
+  onCustomize: () => void;
+}
+
+const SuggestionModeBar: React.FC<SuggestionModeBarProps> = ({ modes, disabled, onSelect, onCustomize }) => {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {modes.map(mode => (
+        <button
+          key={mode.id}
+          onClick={() => onSelect(mode)}
+          disabled={disabled}
+          title={mode.shortcut ? `${mode.label} (${mode.shortcut})` : mode.label}
+          className="text-xs bg-indigo-900/40 hover:bg-indigo-800/50 border border-indigo-700/40 px-3 py-1.5 rounded-md text-indigo-100 transition-colors disabled:opacity-40 disabled:cursor-not-allowed flex items-center gap-2"
+        >
+          {mode.label}
+          {mode.shortcut && (
+            <kbd className="text-[10px] text-indigo-300/70 font-mono">{mode.shortcut}</kbd>
+          )}
+        </button>
+      ))}
+      <button
+        onClick={onCustomize}
+        className="text-xs bg-slate-800 hover:bg-slate-700 border border-slate-700 px-3 py-1.5 rounded-md text-slate-300 transition-colors"
+      >
+        Customize...
+      </button>
+    </div>
+  );
+};
+
+export default SuggestionModeBar;
@@ -1,62 +1,256 @@
-import React, { useEffect, useRef } from 'react';
-import { TranscriptionItem } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { TranscriptionItem, TranscriptSource } from '../types';
+import { findMatches, highlightSegments, stepMatch, TranscriptMatch } from '../services/transcriptSearch';
+import { speakerName, speakersInTranscript } from '../services/speakerDiarization';
+import SpeakerNames from './SpeakerNames';
+
+const SOURCE_LABELS: Record<TranscriptSource, string> = {
+  [TranscriptSource.ME]: 'Me',
+  [TranscriptSource.REMOTE]: 'Meeting Audio',
+  [TranscriptSource.ASSISTANT]: 'AI Assistant',
+};
+
+// How close to the bottom counts as "following" the live transcript
+const FOLLOW_THRESHOLD_PX = 40;
 
 interface TranscriptProps {
   items: TranscriptionItem[];
+  title?: string;
+  activeItemId?: string | null; // Highlighted and kept in view, e.g. the line being played back
+  onItemClick?: (item: TranscriptionItem) => void;
+  onTogglePin?: (item: TranscriptionItem) => void; // Pinning is only offered when set
+  speakerNames?: Record<string, string>;
+  onRenameSpeaker?: (speaker: string, name: string) => void; // Naming speakers is only offered when set
 }
 
-const Transcript: React.FC<TranscriptProps> = ({ items }) => {
+const Transcript: React.FC<TranscriptProps> = ({
+  items,
+  title = 'Live Transcript',
+  activeItemId,
+  onItemClick,
+  onTogglePin,
+  speakerNames = {},
+  onRenameSpeaker,
+}) => {
   const containerRef = useRef<HTMLDivElement>(null);
+  const itemRefs = useRef(new Map<string, HTMLDivElement>());
+  const [query, setQuery] = useState('');
+  const [matchIndex, setMatchIndex] = useState(0);
+  const [pinnedOnly, setPinnedOnly] = useState(false);
+  // Auto-scroll only while the reader is at the bottom; scrolling up to read history pauses it
+  const [following, setFollowing] = useState(true);
+  const [hasUnseen, setHasUnseen] = useState(false);
 
-  // Auto-scroll to bottom
-  useEffect(() => {
+  const pinnedCount = items.filter(item => item.pinned).length;
+  const visibleItems = pinnedOnly ? items.filter(item => item.pinned) : items;
+  const matches = useMemo(() => findMatches(visibleItems, query), [visibleItems, query]);
+  const activeMatch: TranscriptMatch | undefined = query.trim() ? matches[matchIndex] : undefined;
+
+  const scrollToBottom = () => {
     if (containerRef.current) {
       containerRef.current.scrollTop = containerRef.current.scrollHeight;
     }
+  };
+
+  useEffect(() => {
+    if (following && !query.trim()) {
+      scrollToBottom();
+    } else {
+      setHasUnseen(true);
+    }
   }, [items]);
 
+  useEffect(() => {
+    if (activeItemId) {
+      itemRefs.current.get(activeItemId)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }, [activeItemId]);
+
+  useEffect(() => {
+    setMatchIndex(0);
+  }, [query, pinnedOnly]);
+
+  // Jump to the selected match. Not re-run as lines stream in, so reading is not interrupted.
+  useEffect(() => {
+    if (activeMatch) {
+      itemRefs.current.get(activeMatch.itemId)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }
+  }, [matchIndex, query, pinnedOnly]);
+
+  const handleScroll = () => {
+    const container = containerRef.current;
+    if (!container) return;
+    const atBottom = container.scrollHeight - container.scrollTop - container.clientHeight < FOLLOW_THRESHOLD_PX;
+    setFollowing(atBottom);
+    if (atBottom) setHasUnseen(false);
+  };
+
+  const jumpToLatest = () => {
+    setQuery('');
+    setPinnedOnly(false);
+    setFollowing(true);
+    setHasUnseen(false);
+    // After the filter is cleared and the full list is rendered
+    requestAnimationFrame(scrollToBottom);
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      setMatchIndex(index => stepMatch(index, matches.length, e.shiftKey ? -1 : 1));
+    } else if (e.key === 'Escape') {
+      setQuery('');
+    }
+  };
+
+  const renderText = (item: TranscriptionItem, field: TranscriptMatch['field']) => {
+    const text = (field === 'text' ? item.text : item.translation) ?? '';
+    if (!query.trim()) return text;
+    let offset = 0;
+    return highlightSegments(text, query).map((segment, i) => {
+      const start = offset;
+      offset += segment.text.length;
+      if (!segment.isMatch) return <React.Fragment key={i}>{segment.text}</React.Fragment>;
+      const isActive = activeMatch?.itemId === item.id && activeMatch.field === field && activeMatch.start === start;
+      return (
+        <mark key={i} className={`rounded px-0.5 text-slate-950 ${isActive ? 'bg-amber-300' : 'bg-amber-200/60'}`}>
+          {segment.text}
+        </mark>
+      );
+    });
+  };
+
   return (
     <div className="flex flex-col h-full bg-slate-900/50 rounded-xl border border-slate-800 overflow-hidden">
-      <div className="p-3 bg-slate-800/50 border-b border-slate-700">
-        <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Live Transcript</h3>
+      <div className="p-3 bg-slate-800/50 border-b border-slate-700 space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">{title}</h3>
+          {pinnedCount > 0 && (
+            <button
+              onClick={() => setPinnedOnly(!pinnedOnly)}
+              className={`text-[10px] px-2 py-0.5 rounded-md transition-colors ${
+                pinnedOnly ? 'bg-amber-500/20 text-amber-200' : 'text-slate-400 hover:text-slate-200'
+              }`}
+              aria-pressed={pinnedOnly}
+            >
+              📌 {pinnedCount}
+            </button>
+          )}
+        </div>
+        {onRenameSpeaker && (
+          <SpeakerNames speakers={speakersInTranscript(items)} names={speakerNames} onRename={onRenameSpeaker} />
+        )}
+        <div className="flex items-center gap-1">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleSearchKeyDown}
+            placeholder="Search transcript"
+            className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-200 placeholder-slate-500 focus:outline-none focus:border-blue-500"
+            aria-label="Search transcript"
+          />
+          {query.trim() && (
+            <>
+              <span className="text-[10px] text-slate-400 w-12 text-center shrink-0">
+                {matches.length === 0 ? 'No matches' : `${matchIndex + 1}/${matches.length}`}
+              </span>
+              <button
+                onClick={() => setMatchIndex(index => stepMatch(index, matches.length, -1))}
+                disabled={matches.length === 0}
+                className="text-xs text-slate-400 hover:text-white px-1 disabled:opacity-30"
+                aria-label="Previous match"
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => setMatchIndex(index => stepMatch(index, matches.length, 1))}
+                disabled={matches.length === 0}
+                className="text-xs text-slate-400 hover:text-white px-1 disabled:opacity-30"
+                aria-label="Next match"
+              >
+                ↓
+              </button>
+            </>
+          )}
+        </div>
       </div>
-      <div 
-        ref={containerRef}
-        className="flex-1 overflow-y-auto p-4 space-y-3"
-      >
-        {items.length === 0 ? (
-          <div className="text-center text-slate-600 italic text-sm mt-10">
-            Listening for conversation...
-          </div>
-        ) : (
-          items.map((item, index) => {
-             // Simple logic to merge sequential items from same source could go here
-             // For now we just list them.
-             const isLast = index === items.length - 1;
-             return (
-                <div 
-                    key={item.id} 
-                    className={`flex flex-col ${item.isUser ? 'items-start' : 'items-end'}`}
-                >
-                    <div 
-                        className={`max-w-[85%] rounded-lg px-3 py-2 text-sm ${
-                            item.isUser 
-                            ? 'bg-slate-800 text-slate-300' 
-                            : 'bg-indigo-600/20 text-indigo-200 border border-indigo-500/30'
-                        }`}
-                    >
-                        <span className="opacity-70 text-[10px] block mb-1">
-                            {item.isUser ? 'Meeting Audio' : 'AI Assistant'}
-                        </span>
-                        {item.text}
-                    </div>
-                </div>
-             )
-          })
+      <div className="relative flex-1 min-h-0">
+        <div
+          ref={containerRef}
+          onScroll={handleScroll}
+          className="h-full overflow-y-auto p-4 space-y-3"
+        >
+          {visibleItems.length === 0 ? (
+            <div className="text-center text-slate-600 italic text-sm mt-10">
+              {pinnedOnly ? 'No pinned lines.' : 'Listening for conversation...'}
+            </div>
+          ) : (
+            visibleItems.map((item) => {
+               const isAssistant = item.source === TranscriptSource.ASSISTANT;
+               return (
+                  <div
+                      key={item.id}
+                      ref={(el) => {
+                          if (el) itemRefs.current.set(item.id, el);
+                          else itemRefs.current.delete(item.id);
+                      }}
+                      className={`group flex flex-col ${item.source === TranscriptSource.REMOTE ? 'items-start' : 'items-end'}`}
+                  >
+                      <div
+                          onClick={onItemClick ? () => onItemClick(item) : undefined}
+                          className={`max-w-[85%] rounded-lg px-3 py-2 text-sm ${onItemClick ? 'cursor-pointer hover:ring-1 hover:ring-slate-500' : ''} ${
+                              item.id === activeItemId ? 'ring-2 ring-amber-400/70' : item.pinned ? 'ring-1 ring-amber-500/40' : ''
+                          } ${
+                              isAssistant
+                              ? 'bg-indigo-600/20 text-indigo-200 border border-indigo-500/30'
+                              : item.source === TranscriptSource.ME
+                              ? 'bg-blue-900/40 text-blue-100'
+                              : 'bg-slate-800 text-slate-300'
+                          } ${item.isComplete ? '' : 'opacity-80'}`}
+                      >
+                          <span className="opacity-70 text-[10px] mb-1 flex items-center gap-2">
+                              {item.speaker ? speakerName(item.speaker, speakerNames) : SOURCE_LABELS[item.source]}
+                              {onTogglePin && !isAssistant ? (
+                                  <button
+                                      onClick={(e) => {
+                                          e.stopPropagation();
+                                          onTogglePin(item);
+                                      }}
+                                      className={`ml-auto transition-opacity ${item.pinned ? 'opacity-100' : 'opacity-0 group-hover:opacity-60 hover:!opacity-100 focus:opacity-100'}`}
+                                      aria-label={item.pinned ? 'Unpin line' : 'Pin line'}
+                                      aria-pressed={!!item.pinned}
+                                      title={item.pinned ? 'Unpin' : 'Pin: remember this'}
+                                  >
+                                      📌
+                                  </button>
+                              ) : (
+                                  item.pinned && <span className="ml-auto">📌</span>
+                              )}
+                          </span>
+                          {renderText(item, 'text')}
+                          {item.translation && (
+                              <span className="block mt-1 pt-1 border-t border-white/10 text-xs italic opacity-80">
+                                  {renderText(item, 'translation')}
+                              </span>
+                          )}
+                      </div>
+                  </div>
+               )
+            })
+          )}
+        </div>
+        {!following && hasUnseen && (
+          <button
+            onClick={jumpToLatest}
+            className="absolute bottom-3 left-1/2 -translate-x-1/2 text-xs bg-blue-600 hover:bg-blue-500 text-white px-3 py-1.5 rounded-full shadow-lg transition-colors"
+          >
+            Jump to latest ↓
+          </button>
         )}
       </div>
     </div>
   );
 };
 
-export default Transcript;
\ No newline at end of file
+export default Transcript;
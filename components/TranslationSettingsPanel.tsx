@@ -0,0 +1,78 @@
+import React from 'react';
+import { LANGUAGES, TranslationSettings } from '../services/translation';
+
+interface TranslationSettingsPanelProps {
+  settings: TranslationSettings;
+  onChange: (settings: TranslationSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-blue-500';
+const labelClass = 'text-xs font-semibold text-slate-400 uppercase tracking-wider';
+
+const TranslationSettingsPanel: React.FC<TranslationSettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  const update = (patch: Partial<TranslationSettings>) => onChange({ ...settings, ...patch });
+
+  const languageSelect = (value: string, emptyLabel: string, onSelect: (value: string) => void) => (
+    <select value={value} onChange={(e) => onSelect(e.target.value)} className={inputClass}>
+      <option value="">{emptyLabel}</option>
+      {LANGUAGES.map(language => (
+        <option key={language} value={language}>{language}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-lg max-h-[85vh] bg-slate-900 border border-slate-800 rounded-xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h2 className="font-semibold text-slate-200">Language</h2>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-white transition-colors"
+            aria-label="Close"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-5">
+          <div className="space-y-2">
+            <span className={labelClass}>Translate the transcript into</span>
+            {languageSelect(settings.targetLanguage, 'Off', (targetLanguage) => update({ targetLanguage }))}
+            <p className="text-[10px] text-slate-500">Each finished line is translated and shown under the original.</p>
+          </div>
+
+          <div className="space-y-2">
+            <span className={labelClass}>I speak</span>
+            {languageSelect(settings.replyLanguage, 'Same language as the meeting', (replyLanguage) => update({ replyLanguage }))}
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={settings.backTranslate}
+                disabled={!settings.targetLanguage}
+                onChange={(e) => update({ backTranslate: e.target.checked })}
+                className="accent-blue-500"
+              />
+              Show suggestions translated back into {settings.targetLanguage || 'the transcript language'}
+            </label>
+            <p className="text-[10px] text-slate-500">Suggestions are written in the language you speak.</p>
+          </div>
+        </div>
+
+        <div className="flex justify-end p-4 border-t border-slate-800">
+          <button
+            onClick={onClose}
+            className="text-sm bg-blue-600 hover:bg-blue-500 px-4 py-2 rounded-lg text-white font-semibold transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TranslationSettingsPanel;
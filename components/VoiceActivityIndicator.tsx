@@ -0,0 +1,44 @@
+import React from 'react';
+import { TranscriptSource, VoiceActivity } from '../types';
+
+interface VoiceActivityIndicatorProps {
+  activity: Partial<Record<VoiceActivity['source'], VoiceActivity>>;
+}
+
+const CHANNELS: { source: VoiceActivity['source']; label: string }[] = [
+  { source: TranscriptSource.ME, label: 'Me' },
+  { source: TranscriptSource.REMOTE, label: 'Meeting' },
+];
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+};
+
+const VoiceActivityIndicator: React.FC<VoiceActivityIndicatorProps> = ({ activity }) => {
+  const reports = CHANNELS.map(channel => activity[channel.source]).filter((a): a is VoiceActivity => !!a);
+  if (reports.length === 0) return null;
+
+  const processedMs = reports.reduce((sum, a) => sum + a.stats.processedMs, 0);
+  const suppressedMs = reports.reduce((sum, a) => sum + a.stats.suppressedMs, 0);
+  const suppressedPercent = processedMs > 0 ? Math.round((suppressedMs / processedMs) * 100) : 0;
+
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-3 text-xs text-slate-400">
+      {CHANNELS.map(({ source, label }) => {
+        const isSpeech = activity[source]?.isSpeech ?? false;
+        return (
+          <span key={source} className="flex items-center gap-1.5">
+            <span className={`w-2 h-2 rounded-full ${isSpeech ? 'bg-emerald-400' : 'bg-slate-600'}`}></span>
+            {label}: {isSpeech ? 'speaking' : 'silent'}
+          </span>
+        );
+      })}
+      <span className="ml-auto" title="Silent audio is not sent to the assistant">
+        Silence skipped: {formatDuration(suppressedMs)} ({suppressedPercent}%)
+      </span>
+    </div>
+  );
+};
+
+export default VoiceActivityIndicator;
@@ -0,0 +1,101 @@
+import { MeetingClock } from './meetingClock';
+import { ReplayOptions } from './audioFile';
+import { TelemetryRecorder } from './telemetry';
+import {
+  AudioSources,
+  ConnectionState,
+  MeetingBriefing,
+  MeetingTelemetry,
+  ReplayProgress,
+  TranscriptionItem,
+  TranscriptSource,
+  VoiceActivity,
+} from '../types';
+
+// Per-meeting setup passed to connect()
+export interface SessionOptions {
+  briefing?: MeetingBriefing;
+  clock?: MeetingClock; // Source of the meeting-relative transcript offsets
+  replay?: boolean; // Audio comes from replayRecording instead of live capture; no microphone channel
+  redact?: (text: string) => string; // Applied to finished utterances before they are reported or reused as context
+}
+
+// Events every provider reports to the UI
+export interface ProviderEventMap {
+  transcript: TranscriptionItem;
+  state: ConnectionState;
+  voiceActivity: VoiceActivity; // Optional: only providers that gate audio on speech report it
+  replayProgress: ReplayProgress;
+  telemetry: MeetingTelemetry; // Running totals for the session, reported at most once per interval
+}
+
+export type ProviderEvent = keyof ProviderEventMap;
+export type ProviderListener<K extends ProviderEvent> = (payload: ProviderEventMap[K]) => void;
+
+// Each event's listeners, typed by the event's payload
+type ProviderListeners = { [K in ProviderEvent]: Set<ProviderListener<K>> };
+
+/**
+ * A live meeting assistant backend: it listens to the meeting, emits transcripts and
+ * produces reply suggestions on request.
+ */
+export interface MeetingAssistantProvider {
+  // Opens the session. Resolves once the provider is ready to receive audio.
+  connect(options?: SessionOptions): Promise<void>;
+  // Starts streaming the capture channels to the connected session
+  streamAudio(sources: AudioSources): void;
+  // Streams a decoded recording (16kHz PCM16) as the meeting audio. Resolves once it has all been
+  // sent, or early if the session is disconnected.
+  replayRecording(samples: Int16Array, options: ReplayOptions): Promise<void>;
+  // Asks for a suggestion; the prompt describes what kind of reply is wanted
+  requestSuggestion(prompt: string): void;
+  // Stops listening without closing the session: audio is dropped until resume()
+  pause(): void;
+  resume(): void;
+  disconnect(): Promise<void>;
+  // Subscribes to an event; returns the unsubscribe function
+  on<K extends ProviderEvent>(event: K, listener: ProviderListener<K>): () => void;
+}
+
+// Listener bookkeeping shared by the provider implementations
+export abstract class BaseAssistantProvider implements MeetingAssistantProvider {
+  private listeners: ProviderListeners = {
+    transcript: new Set(),
+    state: new Set(),
+    voiceActivity: new Set(),
+    replayProgress: new Set(),
+    telemetry: new Set(),
+  };
+  private redact: (text: string) => string = text => text;
+  protected telemetry = new TelemetryRecorder(stats => this.emit('telemetry', stats));
+
+  abstract connect(options?: SessionOptions): Promise<void>;
+  abstract streamAudio(sources: AudioSources): void;
+  abstract replayRecording(samples: Int16Array, options: ReplayOptions): Promise<void>;
+  abstract requestSuggestion(prompt: string): void;
+  abstract pause(): void;
+  abstract resume(): void;
+  abstract disconnect(): Promise<void>;
+
+  on<K extends ProviderEvent>(event: K, listener: ProviderListener<K>): () => void {
+    const listeners: Set<ProviderListener<K>> = this.listeners[event];
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  protected setRedaction(options: SessionOptions) {
+    this.redact = options.redact ?? (text => text);
+  }
+
+  // Finished spoken utterances pass through the session's redaction; suggestions and partial lines do not
+  protected redactFinished(item: TranscriptionItem): TranscriptionItem {
+    if (!item.isComplete || item.source === TranscriptSource.ASSISTANT) return item;
+    return { ...item, text: this.redact(item.text) };
+  }
+
+  protected emit<K extends ProviderEvent>(event: K, payload: ProviderEventMap[K]) {
+    this.listeners[event].forEach(listener => listener(payload));
+  }
+}
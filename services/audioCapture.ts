@@ -0,0 +1,77 @@
+import captureWorkletUrl from './captureWorklet.ts?worker&url';
+import type { CaptureProcessorOptions, CaptureWorkletMessage } from './captureWorklet';
+
+export const DEFAULT_CAPTURE_OPTIONS: CaptureProcessorOptions = {
+  frameSize: 2048, // 128ms at 16kHz
+  bufferFrames: 80, // ~10s held in the worklet while sends are backed up
+  maxInFlight: 4,
+};
+
+/**
+ * Captures a MediaStream through the PCM capture worklet and hands 16kHz PCM16 frames
+ * to `onFrame`. Each frame is acknowledged once `onFrame` returns, which is what lets
+ * the worklet apply backpressure.
+ */
+export class AudioCapture {
+  private context: AudioContext;
+  private source: MediaStreamAudioSourceNode;
+  private node: AudioWorkletNode;
+  droppedSamples = 0;
+
+  private constructor(context: AudioContext, source: MediaStreamAudioSourceNode, node: AudioWorkletNode) {
+    this.context = context;
+    this.source = source;
+    this.node = node;
+  }
+
+  static async start(
+    stream: MediaStream,
+    onFrame: (samples: Int16Array) => void,
+    options: Partial<CaptureProcessorOptions> = {}
+  ): Promise<AudioCapture> {
+    // Runs at the device rate; the worklet does the resampling
+    const context = new AudioContext();
+    if (!context.audioWorklet) {
+      context.close();
+      throw new Error('Audio capture needs AudioWorklet support, which this browser does not provide.');
+    }
+
+    try {
+      await context.audioWorklet.addModule(captureWorkletUrl);
+    } catch (error) {
+      context.close();
+      throw error;
+    }
+
+    const source = context.createMediaStreamSource(stream);
+    const node = new AudioWorkletNode(context, 'pcm-capture', {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      channelCount: 1,
+      processorOptions: { ...DEFAULT_CAPTURE_OPTIONS, ...options },
+    });
+
+    const capture = new AudioCapture(context, source, node);
+    node.port.onmessage = (event: MessageEvent<CaptureWorkletMessage>) => {
+      if (event.data.type !== 'frame') return;
+      capture.droppedSamples = event.data.dropped;
+      try {
+        onFrame(event.data.samples);
+      } finally {
+        node.port.postMessage({ type: 'ack' });
+      }
+    };
+
+    source.connect(node);
+    // The node outputs silence; connecting it keeps the graph pulling audio through it
+    node.connect(context.destination);
+    return capture;
+  }
+
+  stop() {
+    this.node.port.onmessage = null;
+    this.source.disconnect();
+    this.node.disconnect();
+    this.context.close();
+  }
+}
@@ -0,0 +1,49 @@
+import { floatToPcm16, TARGET_SAMPLE_RATE } from './audioPipeline';
+
+// Formats the replay file picker offers; decoding support ultimately depends on the browser
+export const REPLAY_FILE_ACCEPT = '.wav,.mp3,.webm,.ogg,.m4a,audio/wav,audio/mpeg,audio/webm,audio/ogg,audio/mp4';
+
+export interface ReplayOptions {
+  speed: number; // 1 streams in real time, 2 twice as fast, ...
+}
+
+export const REPLAY_SPEEDS = [1, 2, 4];
+export const DEFAULT_REPLAY_OPTIONS: ReplayOptions = { speed: 1 };
+
+// Averages the channels of a decoded file into one
+export function mixToMono(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) return channels[0];
+  const length = Math.min(...channels.map(channel => channel.length));
+  const mono = new Float32Array(length);
+  channels.forEach(channel => {
+    for (let i = 0; i < length; i++) mono[i] += channel[i] / channels.length;
+  });
+  return mono;
+}
+
+// Splits samples into frames of `frameSize`; the last frame may be shorter
+export function splitFrames(samples: Int16Array, frameSize: number): Int16Array[] {
+  const frames: Int16Array[] = [];
+  for (let i = 0; i < samples.length; i += frameSize) {
+    frames.push(samples.subarray(i, i + frameSize));
+  }
+  return frames;
+}
+
+/**
+ * Decodes an audio file to 16kHz mono PCM16. Decoding through an OfflineAudioContext
+ * at the target rate lets the browser do the (filtered) resampling.
+ */
+export async function decodeAudioFile(file: File): Promise<Int16Array> {
+  const data = await file.arrayBuffer();
+  const context = new OfflineAudioContext(1, 1, TARGET_SAMPLE_RATE);
+  let buffer: AudioBuffer;
+  try {
+    buffer = await context.decodeAudioData(data);
+  } catch {
+    throw new Error(`"${file.name}" could not be decoded. Use a WAV, MP3 or WebM audio file.`);
+  }
+
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+  return floatToPcm16(mixToMono(channels));
+}
@@ -0,0 +1,94 @@
+type MixerInput = 'mic' | 'tab';
+
+interface InputChain {
+  source: MediaStreamAudioSourceNode | null;
+  gain: GainNode;
+  analyser: AnalyserNode;
+  output: MediaStreamAudioDestinationNode;
+}
+
+/**
+ * Routes the microphone and tab audio through adjustable gain stages. Each input gets its
+ * own processed output stream for the assistant, plus a shared mix for the visualizer.
+ * Gains and the microphone source can be changed while a meeting is running.
+ */
+export class AudioMixer {
+  private context: AudioContext;
+  private inputs: Record<MixerInput, InputChain>;
+  private mix: MediaStreamAudioDestinationNode;
+  private levelBuffer: Float32Array;
+
+  constructor(mic: MediaStream, tab: MediaStream) {
+    this.context = new AudioContext();
+    this.mix = this.context.createMediaStreamDestination();
+    this.inputs = {
+      mic: this.createChain(),
+      tab: this.createChain(),
+    };
+    this.levelBuffer = new Float32Array(this.inputs.mic.analyser.fftSize);
+    this.setSource('mic', mic);
+    this.setSource('tab', tab);
+  }
+
+  // Browsers sometimes create the context suspended
+  async resume() {
+    if (this.context.state === 'suspended') {
+      await this.context.resume();
+    }
+  }
+
+  get micStream(): MediaStream {
+    return this.inputs.mic.output.stream;
+  }
+
+  get tabStream(): MediaStream {
+    return this.inputs.tab.output.stream;
+  }
+
+  get mixedStream(): MediaStream {
+    return this.mix.stream;
+  }
+
+  setGain(input: MixerInput, value: number) {
+    this.inputs[input].gain.gain.setTargetAtTime(value, this.context.currentTime, 0.02);
+  }
+
+  // Swaps the microphone (e.g. after picking another device) without touching the outputs
+  replaceMic(stream: MediaStream) {
+    this.setSource('mic', stream);
+  }
+
+  // Post-gain RMS level between 0 and 1, for level meters
+  getLevel(input: MixerInput): number {
+    const analyser = this.inputs[input].analyser;
+    analyser.getFloatTimeDomainData(this.levelBuffer);
+    let sum = 0;
+    for (let i = 0; i < this.levelBuffer.length; i++) {
+      sum += this.levelBuffer[i] * this.levelBuffer[i];
+    }
+    return Math.min(1, Math.sqrt(sum / this.levelBuffer.length));
+  }
+
+  close() {
+    Object.values(this.inputs).forEach(chain => chain.source?.disconnect());
+    this.context.close();
+  }
+
+  private createChain(): InputChain {
+    const gain = this.context.createGain();
+    const analyser = this.context.createAnalyser();
+    analyser.fftSize = 1024;
+    const output = this.context.createMediaStreamDestination();
+    gain.connect(analyser);
+    gain.connect(output);
+    gain.connect(this.mix);
+    return { source: null, gain, analyser, output };
+  }
+
+  private setSource(input: MixerInput, stream: MediaStream) {
+    const chain = this.inputs[input];
+    chain.source?.disconnect();
+    chain.source = this.context.createMediaStreamSource(stream);
+    chain.source.connect(chain.gain);
+  }
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { floatToPcm16, INITIAL_RESAMPLE_STATE, Int16RingBuffer, lowPassKernel, resampleLinear, ResampleState } from './audioPipeline';
+
+const tone = (frequency: number, sampleRate: number, seconds: number) =>
+  Float32Array.from({ length: Math.round(sampleRate * seconds) }, (_, i) => Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+
+// Root mean square, skipping the filter's start-up
+const rms = (samples: Float32Array, skip: number = 100) => {
+  const tail = samples.subarray(skip);
+  return Math.sqrt(tail.reduce((sum, sample) => sum + sample * sample, 0) / tail.length);
+};
+
+// Resamples `input` in blocks the size of an audio worklet render quantum
+const resampleInBlocks = (input: Float32Array, fromRate: number, toRate: number, blockSize: number = 128) => {
+  let state: ResampleState = INITIAL_RESAMPLE_STATE;
+  const blocks: Float32Array[] = [];
+  for (let at = 0; at < input.length; at += blockSize) {
+    const result = resampleLinear(input.subarray(at, at + blockSize), fromRate, toRate, state);
+    blocks.push(result.output);
+    state = result.state;
+  }
+  const output = new Float32Array(blocks.reduce((sum, block) => sum + block.length, 0));
+  let at = 0;
+  blocks.forEach(block => {
+    output.set(block, at);
+    at += block.length;
+  });
+  return output;
+};
+
+describe('resampleLinear', () => {
+  it('copies the input when the rates match', () => {
+    const input = Float32Array.of(0.1, -0.2, 0.3);
+    const { output } = resampleLinear(input, 16000, 16000);
+    expect(Array.from(output)).toEqual(Array.from(input));
+    expect(output).not.toBe(input);
+  });
+
+  it('interpolates between samples when upsampling', () => {
+    const { output } = resampleLinear(Float32Array.of(0, 1, 0), 8000, 16000);
+    expect(Array.from(output)).toEqual([0, 0.5, 1, 0.5, 0]);
+  });
+
+  it('produces a third of the samples from 48kHz to 16kHz', () => {
+    const { output } = resampleLinear(new Float32Array(4800), 48000, 16000);
+    expect(output.length).toBe(1600);
+  });
+
+  it('gives the same result block by block as in one pass', () => {
+    const input = tone(440, 44100, 0.1);
+    const whole = resampleLinear(input, 44100, 16000).output;
+    const blocked = resampleInBlocks(input, 44100, 16000);
+    expect(blocked.length).toBe(whole.length);
+    blocked.forEach((sample, i) => expect(sample).toBeCloseTo(whole[i], 5));
+  });
+
+  it('keeps speech frequencies when downsampling', () => {
+    const output = resampleInBlocks(tone(1000, 48000, 0.5), 48000, 16000);
+    expect(rms(output)).toBeCloseTo(Math.SQRT1_2, 1);
+  });
+
+  it('filters out content that would alias below the new Nyquist frequency', () => {
+    // Without the filter a 12kHz tone folds back to 4kHz at full strength
+    const output = resampleInBlocks(tone(12000, 48000, 0.5), 48000, 16000);
+    expect(rms(output)).toBeLessThan(0.01);
+  });
+});
+
+describe('lowPassKernel', () => {
+  it('is symmetric with unity gain at DC', () => {
+    const kernel = lowPassKernel(48000, 16000);
+    expect(kernel.reduce((sum, tap) => sum + tap, 0)).toBeCloseTo(1, 5);
+    expect(kernel[0]).toBeCloseTo(kernel[kernel.length - 1], 6);
+  });
+});
+
+describe('floatToPcm16', () => {
+  it('scales to signed 16-bit and clamps out-of-range samples', () => {
+    expect(Array.from(floatToPcm16(Float32Array.of(-1.5, -1, -0.5, 0, 0.5, 1, 2)))).toEqual([
+      -32768, -32768, -16384, 0, 16383, 32767, 32767,
+    ]);
+  });
+});
+
+describe('Int16RingBuffer', () => {
+  it('reads samples back in order', () => {
+    const ring = new Int16RingBuffer(8);
+    ring.write(Int16Array.of(1, 2, 3));
+    ring.write(Int16Array.of(4));
+    expect(ring.available).toBe(4);
+    expect(Array.from(ring.read(3)!)).toEqual([1, 2, 3]);
+    expect(ring.available).toBe(1);
+  });
+
+  it('returns null until enough samples are buffered', () => {
+    const ring = new Int16RingBuffer(8);
+    ring.write(Int16Array.of(1, 2));
+    expect(ring.read(3)).toBeNull();
+    expect(ring.available).toBe(2);
+  });
+
+  it('wraps around the end of its storage', () => {
+    const ring = new Int16RingBuffer(4);
+    ring.write(Int16Array.of(1, 2, 3));
+    ring.read(2);
+    ring.write(Int16Array.of(4, 5, 6));
+    expect(Array.from(ring.read(4)!)).toEqual([3, 4, 5, 6]);
+    expect(ring.dropped).toBe(0);
+  });
+
+  it('overwrites and counts the oldest samples when full', () => {
+    const ring = new Int16RingBuffer(4);
+    ring.write(Int16Array.of(1, 2, 3, 4, 5, 6));
+    expect(ring.dropped).toBe(2);
+    expect(Array.from(ring.read(4)!)).toEqual([3, 4, 5, 6]);
+  });
+});
@@ -0,0 +1,158 @@
+// Pure building blocks of the capture pipeline. They run inside the capture worklet,
+// so nothing here may touch the DOM or the main thread.
+
+// Gemini Live expects 16kHz mono PCM16
+export const TARGET_SAMPLE_RATE = 16000;
+
+// Carried between calls so a stream can be resampled block by block without seams
+export interface ResampleState {
+  offset: number; // Read position of the next output sample, relative to the start of the next block
+  previous: number; // Last (filtered) input sample of the previous block
+  history: Float32Array; // Last input samples of the previous block, for the low-pass filter
+}
+
+export const INITIAL_RESAMPLE_STATE: ResampleState = { offset: 0, previous: 0, history: new Float32Array(0) };
+
+// Anti-alias filter length; odd, so the kernel has a centre tap
+const LOW_PASS_TAPS = 63;
+// Cutoff as a fraction of the output Nyquist frequency, leaving room for the transition band
+const LOW_PASS_CUTOFF = 0.8;
+
+const lowPassKernels = new Map<string, Float32Array>();
+
+// Blackman-windowed sinc low-pass for downsampling from `fromRate` to `toRate`, with unity gain at DC
+export function lowPassKernel(fromRate: number, toRate: number, taps: number = LOW_PASS_TAPS): Float32Array {
+  const key = `${fromRate}:${toRate}:${taps}`;
+  const cached = lowPassKernels.get(key);
+  if (cached) return cached;
+
+  const cutoff = (LOW_PASS_CUTOFF * toRate) / 2 / fromRate; // Cycles per input sample
+  const middle = (taps - 1) / 2;
+  const kernel = new Float32Array(taps);
+  let sum = 0;
+  for (let i = 0; i < taps; i++) {
+    const x = i - middle;
+    const sinc = x === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * x) / (Math.PI * x);
+    const window = 0.42 - 0.5 * Math.cos((2 * Math.PI * i) / (taps - 1)) + 0.08 * Math.cos((4 * Math.PI * i) / (taps - 1));
+    kernel[i] = sinc * window;
+    sum += kernel[i];
+  }
+  for (let i = 0; i < taps; i++) kernel[i] /= sum;
+  lowPassKernels.set(key, kernel);
+  return kernel;
+}
+
+// Filters a block, continuing from the previous block's last samples (zeros at the start of a stream)
+function lowPass(input: Float32Array, kernel: Float32Array, history: Float32Array): { output: Float32Array; history: Float32Array } {
+  const keep = kernel.length - 1;
+  const extended = new Float32Array(keep + input.length);
+  extended.set(history.subarray(Math.max(0, history.length - keep)), keep - Math.min(keep, history.length));
+  extended.set(input, keep);
+
+  const output = new Float32Array(input.length);
+  for (let n = 0; n < input.length; n++) {
+    let acc = 0;
+    for (let k = 0; k < kernel.length; k++) acc += kernel[k] * extended[n + keep - k];
+    output[n] = acc;
+  }
+  return { output, history: extended.slice(extended.length - keep) };
+}
+
+/**
+ * Linear interpolation resampler. When downsampling, e.g. 48kHz to 16kHz, the input is low-pass
+ * filtered first so content above the new Nyquist frequency does not fold back as noise; this
+ * delays the output by half the filter length. Pass the returned state to the next call for
+ * continuous streams.
+ */
+export function resampleLinear(
+  input: Float32Array,
+  fromRate: number,
+  toRate: number,
+  state: ResampleState = INITIAL_RESAMPLE_STATE
+): { output: Float32Array; state: ResampleState } {
+  if (input.length === 0) return { output: new Float32Array(0), state };
+  if (fromRate === toRate) {
+    return { output: input.slice(), state: { offset: 0, previous: input[input.length - 1], history: state.history } };
+  }
+
+  let history = state.history;
+  let samples = input;
+  if (fromRate > toRate) {
+    ({ output: samples, history } = lowPass(input, lowPassKernel(fromRate, toRate), state.history));
+  }
+
+  const length = samples.length;
+  const step = fromRate / toRate;
+  const output = new Float32Array(Math.ceil((length - state.offset) / step) + 1);
+  let written = 0;
+  let position = state.offset;
+  // Positions in [-1, 0) interpolate between the previous block's last sample and samples[0]
+  while (position <= length - 1) {
+    const index = Math.floor(position);
+    const fraction = position - index;
+    const a = index < 0 ? state.previous : samples[index];
+    const b = index + 1 < length ? samples[index + 1] : a;
+    output[written++] = a + (b - a) * fraction;
+    position += step;
+  }
+
+  return {
+    output: output.subarray(0, written),
+    state: { offset: position - length, previous: samples[length - 1], history },
+  };
+}
+
+// Clamps to [-1, 1] and scales to signed 16-bit
+export function floatToPcm16(input: Float32Array): Int16Array {
+  const output = new Int16Array(input.length);
+  for (let i = 0; i < input.length; i++) {
+    const s = Math.max(-1, Math.min(1, input[i]));
+    output[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+  }
+  return output;
+}
+
+/**
+ * Fixed-capacity FIFO of PCM16 samples. When full, the oldest samples are overwritten
+ * and counted in `dropped`, so a stalled consumer loses old audio rather than memory.
+ */
+export class Int16RingBuffer {
+  private buffer: Int16Array;
+  private start = 0;
+  private length = 0;
+  dropped = 0;
+
+  constructor(capacity: number) {
+    this.buffer = new Int16Array(capacity);
+  }
+
+  get available(): number {
+    return this.length;
+  }
+
+  write(samples: Int16Array) {
+    const capacity = this.buffer.length;
+    for (let i = 0; i < samples.length; i++) {
+      this.buffer[(this.start + this.length) % capacity] = samples[i];
+      if (this.length < capacity) {
+        this.length++;
+      } else {
+        this.start = (this.start + 1) % capacity;
+        this.dropped++;
+      }
+    }
+  }
+
+  // Removes and returns exactly `count` samples, or null if fewer are buffered
+  read(count: number): Int16Array | null {
+    if (count > this.length) return null;
+    const capacity = this.buffer.length;
+    const output = new Int16Array(count);
+    for (let i = 0; i < count; i++) {
+      output[i] = this.buffer[(this.start + i) % capacity];
+    }
+    this.start = (this.start + count) % capacity;
+    this.length -= count;
+    return output;
+  }
+}
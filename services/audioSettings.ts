@@ -0,0 +1,55 @@
+import { AudioDeviceConfig, MicSettings } from '../types';
+import { loadSetting, saveSetting } from './localSettings';
+
+const DEVICE_CONFIG_KEY = 'audioDevices';
+const MIC_SETTINGS_KEY = 'micSettings';
+// Key for settings of the browser's default microphone
+const DEFAULT_DEVICE_KEY = 'default';
+
+export const MAX_GAIN = 3;
+
+export const DEFAULT_AUDIO_DEVICE_CONFIG: AudioDeviceConfig = {
+  tabGain: 1,
+  micMuted: false,
+  recordAudio: false,
+};
+
+export const DEFAULT_MIC_SETTINGS: MicSettings = {
+  gain: 1,
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+export function loadAudioDeviceConfig(): AudioDeviceConfig {
+  return { ...DEFAULT_AUDIO_DEVICE_CONFIG, ...loadSetting<Partial<AudioDeviceConfig>>(DEVICE_CONFIG_KEY, {}) };
+}
+
+export function saveAudioDeviceConfig(config: AudioDeviceConfig) {
+  saveSetting(DEVICE_CONFIG_KEY, config);
+}
+
+export function loadMicSettings(micId?: string): MicSettings {
+  const all = loadSetting<Record<string, Partial<MicSettings>>>(MIC_SETTINGS_KEY, {});
+  return { ...DEFAULT_MIC_SETTINGS, ...all[micId ?? DEFAULT_DEVICE_KEY] };
+}
+
+export function saveMicSettings(micId: string | undefined, settings: MicSettings) {
+  const all = loadSetting<Record<string, Partial<MicSettings>>>(MIC_SETTINGS_KEY, {});
+  saveSetting(MIC_SETTINGS_KEY, { ...all, [micId ?? DEFAULT_DEVICE_KEY]: settings });
+}
+
+export function micConstraints(micId: string | undefined, settings: MicSettings): MediaTrackConstraints {
+  return {
+    deviceId: micId ? { exact: micId } : undefined,
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl,
+  };
+}
+
+// Device labels are only filled in once the page has microphone permission
+export async function listMicrophones(): Promise<MediaDeviceInfo[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'audioinput');
+}
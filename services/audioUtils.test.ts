@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { createPcm16Blob, decode, encode } from './audioUtils';
+
+describe('encode', () => {
+  it('round-trips through decode, including inputs longer than one chunk', () => {
+    const bytes = Uint8Array.from({ length: 70000 }, (_, i) => (i * 31) % 256);
+    expect(decode(encode(bytes))).toEqual(bytes);
+    expect(encode(Uint8Array.of(77, 97, 110))).toBe('TWFu');
+  });
+});
+
+describe('createPcm16Blob', () => {
+  it('encodes only the view it is given, as 16kHz PCM', () => {
+    const samples = Int16Array.of(0, 1, -1, 0).subarray(1, 3);
+    const blob = createPcm16Blob(samples);
+    expect(blob.mimeType).toBe('audio/pcm;rate=16000');
+    expect(Array.from(new Int16Array(decode(blob.data!).buffer))).toEqual([1, -1]);
+  });
+});
@@ -1,27 +1,23 @@
 import { Blob } from '@google/genai';
+import { TARGET_SAMPLE_RATE } from './audioPipeline';
 
-// Convert Float32Array audio data to PCM 16-bit encoded string for Gemini
-export function createPcmBlob(data: Float32Array): Blob {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    // Clamp values to [-1, 1] range before scaling
-    const s = Math.max(-1, Math.min(1, data[i]));
-    int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
-  }
+// Wrap 16kHz PCM16 samples, e.g. frames from the capture worklet, for Gemini
+export function createPcm16Blob(samples: Int16Array): Blob {
   return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    data: encode(new Uint8Array(samples.buffer, samples.byteOffset, samples.byteLength)),
+    mimeType: `audio/pcm;rate=${TARGET_SAMPLE_RATE}`,
   };
 }
 
-function encode(bytes: Uint8Array): string {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
+// Base64 in chunks: String.fromCharCode over a whole chunk avoids building the string byte by byte
+const ENCODE_CHUNK_SIZE = 0x8000;
+
+export function encode(bytes: Uint8Array): string {
+  const chunks: string[] = [];
+  for (let i = 0; i < bytes.length; i += ENCODE_CHUNK_SIZE) {
+    chunks.push(String.fromCharCode(...bytes.subarray(i, i + ENCODE_CHUNK_SIZE)));
   }
-  return btoa(binary);
+  return btoa(chunks.join(''));
 }
 
 export function decode(base64: string): Uint8Array {
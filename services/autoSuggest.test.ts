@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptionItem, TranscriptSource } from '../types';
+import { AutoSuggestRules, DEFAULT_AUTO_SUGGEST_RULES, findTrigger, isRateLimited, mentionsAny } from './autoSuggest';
+
+const NOW = 1_700_000_000_000;
+
+const rules = (patch: Partial<AutoSuggestRules> = {}): AutoSuggestRules => ({
+  ...DEFAULT_AUTO_SUGGEST_RULES,
+  enabled: true,
+  ...patch,
+});
+
+let nextId = 0;
+const said = (text: string, source: TranscriptSource = TranscriptSource.REMOTE, patch: Partial<TranscriptionItem> = {}): TranscriptionItem => ({
+  id: `item-${nextId++}`,
+  text,
+  source,
+  timestamp: NOW - 1000,
+  endTimestamp: NOW - 500,
+  isComplete: true,
+  ...patch,
+});
+
+describe('mentionsAny', () => {
+  it.each([
+    ['Zoë, can you take this?', 'Zoë'],
+    ['We should port it to C++ first', 'C++'],
+    ['Is .NET still on the roadmap', '.NET'],
+    ['ask ZOË about it', 'Zoë'],
+  ])('finds the term in "%s"', (text, term) => {
+    expect(mentionsAny(text, ['Sam', term])).toBe(term);
+  });
+
+  it('only matches whole words', () => {
+    expect(mentionsAny('Zoës notes and Samantha', ['Zoë', 'Sam'])).toBeNull();
+    expect(mentionsAny('C++11 features', ['C++'])).toBeNull();
+  });
+
+  it('ignores blank terms', () => {
+    expect(mentionsAny('anything', ['  ', ''])).toBeNull();
+  });
+});
+
+describe('findTrigger', () => {
+  it('fires on a question addressed to me', () => {
+    const item = said('What do you think about the timeline?');
+    expect(findTrigger([item], NOW, rules())).toEqual({ kind: 'directQuestion', itemId: item.id, label: 'Question to me' });
+  });
+
+  it('fires when my name is mentioned, before other rules', () => {
+    const item = said('Zoë, what do you think?');
+    expect(findTrigger([item], NOW, rules({ myNames: ['Zoë'] }))).toMatchObject({ kind: 'name', label: 'My name was mentioned: Zoë' });
+    expect(findTrigger([item], NOW, rules({ myNames: ['Zoë'], onMyName: false }))?.kind).toBe('directQuestion');
+  });
+
+  it('fires on a keyword', () => {
+    const item = said('The .NET migration slipped again.');
+    expect(findTrigger([item], NOW, rules({ keywords: ['.NET'] }))).toMatchObject({ kind: 'keyword', label: 'Keyword mentioned: .NET' });
+  });
+
+  it('fires on a pause after a question only once the pause is long enough', () => {
+    const item = said('Which option is cheaper?', TranscriptSource.REMOTE, { endTimestamp: NOW - 1000 });
+    const pausing = rules({ onPauseAfterQuestion: true, pauseMs: 2500 });
+    expect(findTrigger([item], NOW, pausing)).toBeNull();
+    expect(findTrigger([item], NOW + 1500, pausing)?.kind).toBe('pauseAfterQuestion');
+  });
+
+  it('ignores statements, my own lines, unfinished lines and lines that already fired', () => {
+    const question = said('Can you share the numbers?');
+    expect(findTrigger([said('The numbers are in.')], NOW, rules())).toBeNull();
+    expect(findTrigger([said('Can you hear me?', TranscriptSource.ME)], NOW, rules())).toBeNull();
+    expect(findTrigger([said('Can you share', TranscriptSource.REMOTE, { isComplete: false })], NOW, rules())).toBeNull();
+    expect(findTrigger([question], NOW, rules(), question.id)).toBeNull();
+  });
+
+  it('looks past assistant lines to the last spoken one', () => {
+    const question = said('Can you share the numbers?');
+    const trigger = findTrigger([question, said('Sure, here they are.', TranscriptSource.ASSISTANT)], NOW, rules());
+    expect(trigger?.itemId).toBe(question.id);
+  });
+});
+
+describe('isRateLimited', () => {
+  const limits = rules({ cooldownMs: 20000, maxPerWindow: 3, windowMs: 60000 });
+
+  it('holds back during the cooldown', () => {
+    expect(isRateLimited([NOW - 10000], NOW, limits)).toBe(true);
+    expect(isRateLimited([NOW - 20000], NOW, limits)).toBe(false);
+  });
+
+  it('holds back once the window budget is used', () => {
+    expect(isRateLimited([NOW - 50000, NOW - 40000, NOW - 25000], NOW, limits)).toBe(true);
+    expect(isRateLimited([NOW - 70000, NOW - 40000, NOW - 25000], NOW, limits)).toBe(false);
+  });
+
+  it('allows the first suggestion', () => {
+    expect(isRateLimited([], NOW, limits)).toBe(false);
+  });
+});
@@ -0,0 +1,116 @@
+import { TranscriptionItem, TranscriptSource } from '../types';
+import { loadSetting, saveSetting } from './localSettings';
+import { wholeWordRegExp } from './textMatch';
+
+export type AutoTriggerKind = 'name' | 'keyword' | 'directQuestion' | 'pauseAfterQuestion';
+
+export interface AutoSuggestRules {
+  enabled: boolean;
+  modeId: string; // Suggestion mode used for automatic requests
+  onDirectQuestion: boolean;
+  onMyName: boolean;
+  myNames: string[];
+  keywords: string[];
+  onPauseAfterQuestion: boolean;
+  pauseMs: number; // Silence after a question before it counts as waiting for an answer
+  cooldownMs: number; // Minimum time between two automatic suggestions
+  maxPerWindow: number;
+  windowMs: number;
+}
+
+export const DEFAULT_AUTO_SUGGEST_RULES: AutoSuggestRules = {
+  enabled: false,
+  modeId: 'answer-question',
+  onDirectQuestion: true,
+  onMyName: true,
+  myNames: [],
+  keywords: [],
+  onPauseAfterQuestion: false,
+  pauseMs: 2500,
+  cooldownMs: 20000,
+  maxPerWindow: 5,
+  windowMs: 5 * 60 * 1000,
+};
+
+export interface AutoTrigger {
+  kind: AutoTriggerKind;
+  itemId: string;
+  label: string; // Short description for the suggestion's trigger and the notification
+}
+
+export const TRIGGER_LABELS: Record<AutoTriggerKind, string> = {
+  name: 'My name was mentioned',
+  keyword: 'Keyword mentioned',
+  directQuestion: 'Question to me',
+  pauseAfterQuestion: 'Pause after a question',
+};
+
+const QUESTION_OPENERS = /^(who|what|when|where|why|how|which|can|could|would|will|do|does|did|is|are|should|have|has)\b/i;
+const ADDRESSES_LISTENER = /\b(you|your|yours)\b/i;
+
+export function isQuestion(text: string): boolean {
+  const trimmed = text.trim();
+  return trimmed.endsWith('?') || QUESTION_OPENERS.test(trimmed);
+}
+
+// Whole-word, case-insensitive match of any of the terms
+export function mentionsAny(text: string, terms: string[]): string | null {
+  for (const term of terms) {
+    const trimmed = term.trim();
+    if (trimmed && wholeWordRegExp(trimmed).test(text)) return trimmed;
+  }
+  return null;
+}
+
+/**
+ * Checks whether the latest thing said in the meeting should trigger a suggestion.
+ * Only finished utterances from the other participants count, and each utterance
+ * triggers at most once (pass the id of the last one that did).
+ */
+export function findTrigger(
+  transcript: TranscriptionItem[],
+  now: number,
+  rules: AutoSuggestRules,
+  lastTriggeredItemId: string | null = null
+): AutoTrigger | null {
+  const spoken = transcript.filter(item => item.source !== TranscriptSource.ASSISTANT);
+  const latest = spoken[spoken.length - 1];
+  if (!latest || latest.source !== TranscriptSource.REMOTE || !latest.isComplete) return null;
+  if (latest.id === lastTriggeredItemId) return null;
+
+  const trigger = (kind: AutoTriggerKind, detail?: string): AutoTrigger => ({
+    kind,
+    itemId: latest.id,
+    label: detail ? `${TRIGGER_LABELS[kind]}: ${detail}` : TRIGGER_LABELS[kind],
+  });
+
+  const name = rules.onMyName ? mentionsAny(latest.text, rules.myNames) : null;
+  if (name) return trigger('name', name);
+
+  const keyword = mentionsAny(latest.text, rules.keywords);
+  if (keyword) return trigger('keyword', keyword);
+
+  if (!isQuestion(latest.text)) return null;
+  if (rules.onDirectQuestion && ADDRESSES_LISTENER.test(latest.text)) return trigger('directQuestion');
+
+  const endedAt = latest.endTimestamp ?? latest.timestamp;
+  if (rules.onPauseAfterQuestion && now - endedAt >= rules.pauseMs) return trigger('pauseAfterQuestion');
+  return null;
+}
+
+// True while the cooldown runs or the window's budget is used up. `firedAt` holds past trigger times.
+export function isRateLimited(firedAt: number[], now: number, rules: AutoSuggestRules): boolean {
+  const last = firedAt[firedAt.length - 1];
+  if (last !== undefined && now - last < rules.cooldownMs) return true;
+  return firedAt.filter(time => now - time < rules.windowMs).length >= rules.maxPerWindow;
+}
+
+const AUTO_SUGGEST_KEY = 'autoSuggestRules';
+
+export function loadAutoSuggestRules(): AutoSuggestRules {
+  return { ...DEFAULT_AUTO_SUGGEST_RULES, ...loadSetting<Partial<AutoSuggestRules>>(AUTO_SUGGEST_KEY, {}) };
+}
+
+export function saveAutoSuggestRules(rules: AutoSuggestRules) {
+  saveSetting(AUTO_SUGGEST_KEY, rules);
+}
@@ -0,0 +1,91 @@
+import { MeetingBriefing } from '../types';
+import { loadSetting, saveSetting } from './localSettings';
+
+export interface BriefingTemplate {
+  id: string;
+  name: string;
+  briefing: MeetingBriefing;
+}
+
+export const EMPTY_BRIEFING: MeetingBriefing = {
+  agenda: '',
+  participants: [],
+  goals: '',
+  notes: '',
+  documents: [],
+};
+
+// Keeps the session setup within a reasonable size; longer documents are cut off
+const MAX_DOCUMENT_CHARS = 20000;
+const MAX_BRIEFING_CHARS = 60000;
+
+const SUPPORTED_EXTENSIONS = ['.txt', '.md', '.markdown'];
+
+const DRAFT_KEY = 'briefingDraft';
+const TEMPLATES_KEY = 'briefingTemplates';
+
+export function isBriefingEmpty(briefing: MeetingBriefing): boolean {
+  return (
+    !briefing.agenda.trim() &&
+    !briefing.goals.trim() &&
+    !briefing.notes.trim() &&
+    briefing.participants.every(p => !p.name.trim()) &&
+    briefing.documents.length === 0
+  );
+}
+
+function truncate(text: string, limit: number): string {
+  return text.length > limit ? `${text.slice(0, limit)}\n[...truncated]` : text;
+}
+
+// Renders the briefing as an extra section of the system instruction
+export function buildBriefingInstruction(briefing: MeetingBriefing): string {
+  if (isBriefingEmpty(briefing)) return '';
+
+  const sections: string[] = ['MEETING BRIEFING (provided by the user before the meeting):'];
+  if (briefing.agenda.trim()) sections.push(`Agenda:\n${briefing.agenda.trim()}`);
+
+  const participants = briefing.participants.filter(p => p.name.trim());
+  if (participants.length > 0) {
+    sections.push(`Participants:\n${participants.map(p => `- ${p.name.trim()}${p.role.trim() ? ` (${p.role.trim()})` : ''}`).join('\n')}`);
+  }
+
+  if (briefing.goals.trim()) sections.push(`The user's goals for this meeting:\n${briefing.goals.trim()}`);
+  if (briefing.notes.trim()) sections.push(`Notes:\n${briefing.notes.trim()}`);
+
+  briefing.documents.forEach(doc => {
+    sections.push(`Reference document "${doc.name}":\n${truncate(doc.content.trim(), MAX_DOCUMENT_CHARS)}`);
+  });
+
+  sections.push('Use this briefing to make suggestions specific to this meeting.');
+  return truncate(sections.join('\n\n'), MAX_BRIEFING_CHARS);
+}
+
+// Reads an uploaded text or Markdown file. PDFs need their text extracted first.
+export async function readBriefingFile(file: File): Promise<{ name: string; content: string }> {
+  const name = file.name;
+  const lower = name.toLowerCase();
+  if (lower.endsWith('.pdf')) {
+    throw new Error('PDF files cannot be read directly. Extract the text and upload it as a .txt or .md file.');
+  }
+  if (!SUPPORTED_EXTENSIONS.some(ext => lower.endsWith(ext)) && !file.type.startsWith('text/')) {
+    throw new Error(`Unsupported file type for "${name}". Use .txt or .md files.`);
+  }
+  return { name, content: await file.text() };
+}
+
+export function loadBriefingDraft(): MeetingBriefing {
+  return { ...EMPTY_BRIEFING, ...loadSetting<Partial<MeetingBriefing>>(DRAFT_KEY, {}) };
+}
+
+export function saveBriefingDraft(briefing: MeetingBriefing) {
+  saveSetting(DRAFT_KEY, briefing);
+}
+
+export function loadBriefingTemplates(): BriefingTemplate[] {
+  return loadSetting<BriefingTemplate[]>(TEMPLATES_KEY, []);
+}
+
+export function saveBriefingTemplates(templates: BriefingTemplate[]) {
+  saveSetting(TEMPLATES_KEY, templates);
+}
@@ -0,0 +1,61 @@
+// Runs in the AudioWorkletGlobalScope: resamples the input to 16kHz PCM16 and posts
+// fixed-size frames to the main thread, holding back while too many are unacknowledged.
+import { floatToPcm16, Int16RingBuffer, INITIAL_RESAMPLE_STATE, resampleLinear, ResampleState, TARGET_SAMPLE_RATE } from './audioPipeline';
+
+// Worklet globals, not part of the DOM lib
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(name: string, processorCtor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor): void;
+
+export interface CaptureProcessorOptions {
+  frameSize: number; // Samples per posted frame, at 16kHz
+  bufferFrames: number; // Ring buffer capacity, in frames
+  maxInFlight: number; // Frames posted but not yet acknowledged by the main thread
+}
+
+export type CaptureWorkletMessage = { type: 'frame'; samples: Int16Array; dropped: number };
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  private options: CaptureProcessorOptions;
+  private ring: Int16RingBuffer;
+  private resampleState: ResampleState = INITIAL_RESAMPLE_STATE;
+  private inFlight = 0;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    this.options = options.processorOptions as CaptureProcessorOptions;
+    this.ring = new Int16RingBuffer(this.options.frameSize * this.options.bufferFrames);
+    this.port.onmessage = (event: MessageEvent<{ type: 'ack' }>) => {
+      if (event.data.type === 'ack') {
+        this.inFlight = Math.max(0, this.inFlight - 1);
+        this.flush();
+      }
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channel = inputs[0]?.[0];
+    if (channel) {
+      const { output, state } = resampleLinear(channel, sampleRate, TARGET_SAMPLE_RATE, this.resampleState);
+      this.resampleState = state;
+      this.ring.write(floatToPcm16(output));
+      this.flush();
+    }
+    return true;
+  }
+
+  private flush() {
+    while (this.inFlight < this.options.maxInFlight) {
+      const samples = this.ring.read(this.options.frameSize);
+      if (!samples) return;
+      this.inFlight++;
+      const message: CaptureWorkletMessage = { type: 'frame', samples, dropped: this.ring.dropped };
+      this.port.postMessage(message, [samples.buffer]);
+    }
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
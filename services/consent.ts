@@ -0,0 +1,47 @@
+import { AuditEntry, AuditEventType } from '../types';
+import { loadSetting, saveSetting } from './localSettings';
+
+export interface ConsentSettings {
+  required: boolean; // Ask for acknowledgement before every live meeting
+  announcement: string; // Message for the participants, e.g. pasted into the meeting chat
+}
+
+export const DEFAULT_ANNOUNCEMENT =
+  'Heads up: I am using an AI meeting assistant that records and transcribes the audio of this call ' +
+  'and sends it to a cloud service to help me take notes and respond. Please let me know now if you do not consent.';
+
+export const DEFAULT_CONSENT_SETTINGS: ConsentSettings = {
+  required: true,
+  announcement: DEFAULT_ANNOUNCEMENT,
+};
+
+export const AUDIT_EVENT_LABELS: Record<AuditEventType, string> = {
+  consentGiven: 'Consent acknowledged',
+  captureStarted: 'Capture started',
+  capturePaused: 'Capture paused',
+  captureResumed: 'Capture resumed',
+  captureStopped: 'Capture stopped',
+};
+
+const CONSENT_SETTINGS_KEY = 'consentSettings';
+
+export function auditEntry(type: AuditEventType, detail?: string, at: number = Date.now()): AuditEntry {
+  return detail ? { type, at, detail } : { type, at };
+}
+
+export function appendAudit(log: AuditEntry[] | undefined, entry: AuditEntry): AuditEntry[] {
+  return [...(log ?? []), entry];
+}
+
+export function formatAuditEntry(entry: AuditEntry): string {
+  const line = `${new Date(entry.at).toISOString()} ${AUDIT_EVENT_LABELS[entry.type]}`;
+  return entry.detail ? `${line}: ${entry.detail}` : line;
+}
+
+export function loadConsentSettings(): ConsentSettings {
+  return { ...DEFAULT_CONSENT_SETTINGS, ...loadSetting<Partial<ConsentSettings>>(CONSENT_SETTINGS_KEY, {}) };
+}
+
+export function saveConsentSettings(settings: ConsentSettings) {
+  saveSetting(CONSENT_SETTINGS_KEY, settings);
+}
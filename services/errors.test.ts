@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { errorMessage } from './errors';
+
+describe('errorMessage', () => {
+  it('reads the message of errors and error events', () => {
+    expect(errorMessage(new Error('Disk full'))).toBe('Disk full');
+    expect(errorMessage({ message: 'Socket closed' })).toBe('Socket closed');
+  });
+
+  it('falls back when there is no message', () => {
+    expect(errorMessage(new Error(''), 'Could not save.')).toBe('Could not save.');
+    expect(errorMessage(null, 'Could not save.')).toBe('Could not save.');
+    expect(errorMessage('timeout')).toBe('timeout');
+  });
+});
@@ -0,0 +1,4 @@
+// A readable message for anything caught or passed to an error callback; `fallback` when it has none
+export function errorMessage(error: unknown, fallback: string = String(error)): string {
+  return (error instanceof Error ? error.message : (error as ErrorEvent | null)?.message) || fallback;
+}
@@ -1,157 +1,393 @@
 import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { ConnectionState, TranscriptionItem } from '../types';
-import { createPcmBlob } from './audioUtils';
+import { AudioSources, ConnectionState, TranscriptionItem, TranscriptSource } from '../types';
+import { BaseAssistantProvider, SessionOptions } from './assistantProvider';
+import { buildBriefingInstruction } from './briefing';
+import { AudioCapture, DEFAULT_CAPTURE_OPTIONS } from './audioCapture';
+import { createPcm16Blob } from './audioUtils';
+import { errorMessage } from './errors';
+import { ReplayOptions, splitFrames } from './audioFile';
+import { TARGET_SAMPLE_RATE } from './audioPipeline';
+import { createMeetingClock, MeetingClock } from './meetingClock';
+import { DEFAULT_VAD_CONFIG, VadConfig, VoiceActivityDetector } from './voiceActivity';
+import { formatTranscriptForPrompt } from './promptContext';
+import { DEFAULT_DIARIZATION_CONFIG, DiarizationConfig, SpeakerDiarizer } from './speakerDiarization';
+import { ResilientSession, ResilientSessionState } from './resilientSession';
+import { TranscriptAssembler } from './transcriptAssembler';
 
 // System instruction to guide the model's behavior
 const SYSTEM_INSTRUCTION = `
-You are a professional Meeting Assistant AI. 
+You are a professional Meeting Assistant AI.
 Your goal is to listen to the meeting audio stream silently and maintain context.
-DO NOT speak or generate text outputs unsolicited. 
-Wait for the user to explicitly ask for a response suggestion.
-When the user sends a text message like "Suggest a response", provide a concise, professional, and contextually appropriate spoken response text that the user can say in the meeting. 
-Keep suggestions direct (1-3 sentences).
+The audio you hear comes from the other participants of the meeting.
+Text turns prefixed with "[Me]:" are what the user (the person you are assisting) said in the meeting.
+DO NOT speak or generate text outputs unsolicited.
+Wait for the user to explicitly ask for a suggestion.
+Each request describes what the user needs (for example an answer, a clarifying question or a recap).
+Reply only with the text the user can say in the meeting: professional, contextually appropriate and no longer than the request asks for.
 `;
 
-export class GeminiLiveService {
+// The microphone session only exists to transcribe the user's own voice
+const MIC_SYSTEM_INSTRUCTION = `
+You are a silent transcription listener. Never respond, never speak and never generate text outputs.
+`;
+
+type CaptureSource = TranscriptSource.ME | TranscriptSource.REMOTE;
+
+// Completed utterances replayed to the primary session when it has to start over
+const REPLAY_TURN_COUNT = 20;
+
+// Replaces the "[Me]:" convention when the audio is a recording with every voice mixed together
+const REPLAY_INSTRUCTION = `
+The audio is a recording of the whole meeting, replayed. The user's own voice is part of it and there are no "[Me]:" turns.
+`;
+
+// Replay progress is reported after roughly this much recording time has been sent
+const REPLAY_PROGRESS_INTERVAL_MS = 1000;
+
+// Voice activity is reported on every speech/silence change and at least this often for the stats
+const VAD_REPORT_INTERVAL_MS = 1000;
+
+// Transcription fragments arrive roughly this long (in real time) after the words were captured
+const TRANSCRIPTION_LAG_MS = 1000;
+
+const frameMs = (frame: Int16Array) => (frame.length / TARGET_SAMPLE_RATE) * 1000;
+
+// One Live session plus its audio capture graph per source
+interface AudioChannel {
+  session: ResilientSession;
+  state: ResilientSessionState;
+  capture: AudioCapture | null;
+  vad: VoiceActivityDetector | null;
+  reportedSpeech: boolean;
+  reportedAt: number;
+}
+
+export interface GeminiLiveConfig {
+  apiKey: string;
+  model: string;
+  frameSize: number; // 16kHz samples per audio message
+  vad: VadConfig | null; // Null streams everything, silence included
+  diarization: DiarizationConfig | null; // Null leaves remote lines without a speaker label
+}
+
+export const DEFAULT_GEMINI_LIVE_CONFIG: GeminiLiveConfig = {
+  apiKey: process.env.API_KEY ?? '',
+  model: process.env.GEMINI_LIVE_MODEL || 'gemini-2.5-flash-native-audio-preview-09-2025',
+  frameSize: DEFAULT_CAPTURE_OPTIONS.frameSize,
+  vad: DEFAULT_VAD_CONFIG,
+  diarization: DEFAULT_DIARIZATION_CONFIG,
+};
+
+export class GeminiLiveService extends BaseAssistantProvider {
   private ai: GoogleGenAI;
-  private sessionPromise: Promise<any> | null = null;
-  private inputAudioContext: AudioContext | null = null;
-  private mediaStreamSource: MediaStreamAudioSourceNode | null = null;
-  private scriptProcessor: ScriptProcessorNode | null = null;
-  private onTranscriptionUpdate: (item: TranscriptionItem) => void;
-  private onStateChange: (state: ConnectionState) => void;
-
-  constructor(
-    onTranscriptionUpdate: (item: TranscriptionItem) => void,
-    onStateChange: (state: ConnectionState) => void
-  ) {
-    this.ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    this.onTranscriptionUpdate = onTranscriptionUpdate;
-    this.onStateChange = onStateChange;
+  private config: GeminiLiveConfig;
+  // The remote channel is the primary session: it holds the meeting context and produces suggestions
+  private channels = new Map<CaptureSource, AudioChannel>();
+  private assembler: TranscriptAssembler;
+  private recentTurns: TranscriptionItem[] = [];
+  private paused = false;
+  private diarizer: SpeakerDiarizer | null = null;
+  // Speaker segments and transcript offsets share this clock, so replay speed and pauses affect both alike
+  private clock: MeetingClock = createMeetingClock();
+  private playbackRate = 1; // Meeting time per real time: the replay speed, or 1 when live
+
+  constructor(config: GeminiLiveConfig = DEFAULT_GEMINI_LIVE_CONFIG) {
+    super();
+    this.config = config;
+    this.ai = new GoogleGenAI({ apiKey: config.apiKey });
+    this.assembler = new TranscriptAssembler((assembled) => {
+      const item = this.redactFinished(this.withSpeaker(assembled));
+      this.emit('transcript', item);
+      if (item.isComplete && item.source !== TranscriptSource.ASSISTANT && item.text) {
+        this.recentTurns = [...this.recentTurns, item].slice(-REPLAY_TURN_COUNT);
+      }
+      // Once one of my utterances is finished, hand it to the primary session as context
+      if (item.isComplete && item.source === TranscriptSource.ME && item.text) {
+        this.forwardUserSpeech(item.text);
+      }
+    });
   }
 
-  async connect(stream: MediaStream) {
-    this.onStateChange(ConnectionState.CONNECTING);
+  async connect(options: SessionOptions = {}) {
+    this.emit('state', ConnectionState.CONNECTING);
 
+    // The briefing only matters to the primary session, which produces the suggestions
+    const briefing = options.briefing ? buildBriefingInstruction(options.briefing) : '';
+    const primaryInstruction = [SYSTEM_INSTRUCTION, options.replay ? REPLAY_INSTRUCTION : '', briefing].filter(Boolean).join('\n');
+
+    // Connecting again replaces the sessions of the previous connection instead of leaking them
+    this.stopAllAudioStreams();
+    this.recentTurns = [];
+    this.paused = false;
+    this.setRedaction(options);
+    this.telemetry.reset();
+    this.diarizer = this.config.diarization ? new SpeakerDiarizer(this.config.diarization) : null;
+    this.clock = options.clock ?? createMeetingClock();
+    this.playbackRate = 1;
+    this.assembler.setClock(this.clock);
     try {
-      this.sessionPromise = this.ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        callbacks: {
-          onopen: () => {
-            this.onStateChange(ConnectionState.CONNECTED);
-            this.startAudioStream(stream);
-          },
-          onmessage: (message: LiveServerMessage) => {
-            this.handleMessage(message);
-          },
-          onclose: () => {
-            this.onStateChange(ConnectionState.DISCONNECTED);
-            this.stopAudioStream();
-          },
-          onerror: (err) => {
-            console.error('Gemini Live Error:', err);
-            this.onStateChange(ConnectionState.ERROR);
-            this.stopAudioStream();
-          },
-        },
-        config: {
-          responseModalities: [Modality.AUDIO], // We use AUDIO modality to get the "spoken" style response, but we'll read the transcription
-          systemInstruction: SYSTEM_INSTRUCTION,
-          inputAudioTranscription: { model: "google_speech_v2" }, // Enable input transcription to track context
-          outputAudioTranscription: { model: "google_speech_v2" }, // Enable output transcription to get the suggestion as text
-        },
-      });
+      this.openChannel(TranscriptSource.REMOTE, primaryInstruction);
+      if (!options.replay) {
+        this.openChannel(TranscriptSource.ME, MIC_SYSTEM_INSTRUCTION);
+      }
+      // Only report CONNECTED once every channel is open
+      await Promise.all(Array.from(this.channels.values()).map(channel => channel.session.open()));
+      this.emit('state', ConnectionState.CONNECTED);
     } catch (error) {
       console.error('Connection failed:', error);
-      this.onStateChange(ConnectionState.ERROR);
+      this.telemetry.error(`Connection failed: ${errorMessage(error)}`);
+      this.stopAllAudioStreams();
+      this.emit('state', ConnectionState.ERROR);
+      throw error;
     }
   }
 
-  private startAudioStream(stream: MediaStream) {
-    // 16kHz context for Gemini compatibility
-    this.inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({
-      sampleRate: 16000,
+  streamAudio(sources: AudioSources) {
+    this.startAudioStream(TranscriptSource.REMOTE, sources.remote);
+    this.startAudioStream(TranscriptSource.ME, sources.me);
+  }
+
+  private openChannel(source: CaptureSource, systemInstruction: string) {
+    const session = new ResilientSession({
+      connect: (callbacks, resumeHandle) =>
+        this.ai.live.connect({
+          model: this.config.model,
+          callbacks,
+          config: {
+            responseModalities: [Modality.AUDIO], // We use AUDIO modality to get the "spoken" style response, but we'll read the transcription
+            systemInstruction,
+            inputAudioTranscription: {}, // Enable input transcription to track context
+            outputAudioTranscription: {}, // Enable output transcription to get the suggestion as text
+            sessionResumption: resumeHandle ? { handle: resumeHandle } : {}, // Ask for resumption handles
+          },
+        }),
+      onMessage: (message) => this.handleMessage(source, message),
+      onStateChange: (state) => this.handleChannelState(source, state),
+      onError: (error) => this.telemetry.error(`${source}: ${errorMessage(error)}`),
+      // The microphone session keeps no context worth replaying
+      getReplayContext: source === TranscriptSource.REMOTE ? () => this.buildReplayContext() : undefined,
     });
 
-    this.mediaStreamSource = this.inputAudioContext.createMediaStreamSource(stream);
-    this.scriptProcessor = this.inputAudioContext.createScriptProcessor(4096, 1, 1);
-
-    this.scriptProcessor.onaudioprocess = (e) => {
-      const inputData = e.inputBuffer.getChannelData(0);
-      const pcmBlob = createPcmBlob(inputData);
-      
-      if (this.sessionPromise) {
-        this.sessionPromise.then((session) => {
-            session.sendRealtimeInput({ media: pcmBlob });
-        });
+    this.channels.set(source, {
+      session,
+      state: 'connecting',
+      capture: null,
+      vad: this.config.vad ? new VoiceActivityDetector(this.config.vad) : null,
+      reportedSpeech: false,
+      reportedAt: 0,
+    });
+  }
+
+  // Combines the channel states: reconnecting while any channel is, an error once any gives up
+  private handleChannelState(source: CaptureSource, state: ResilientSessionState) {
+    const channel = this.channels.get(source);
+    if (!channel) return; // Already torn down
+    const previous = channel.state;
+    channel.state = state;
+
+    const states = Array.from(this.channels.values()).map(c => c.state);
+    if (state === 'failed') {
+      // A channel that never opened makes connect() fail, which reports the error itself
+      if (previous === 'connecting') return;
+      console.error(`Gemini Live (${source}): could not reconnect`);
+      this.telemetry.error(`${source}: could not reconnect`);
+      this.stopAllAudioStreams();
+      this.emit('state', ConnectionState.ERROR);
+    } else if (state === 'reconnecting') {
+      this.telemetry.reconnected();
+      this.emit('state', ConnectionState.RECONNECTING);
+    } else if (state === 'open' && states.every(s => s === 'open')) {
+      this.emit('state', ConnectionState.CONNECTED);
+    }
+  }
+
+  // Labels a remote line with whoever spoke most while it was being said
+  private withSpeaker(item: TranscriptionItem): TranscriptionItem {
+    if (item.source !== TranscriptSource.REMOTE || !this.diarizer || item.offsetMs === undefined) return item;
+    const lagMs = TRANSCRIPTION_LAG_MS * this.playbackRate;
+    const speaker = this.diarizer.speakerBetween(item.offsetMs - lagMs, (item.endOffsetMs ?? item.offsetMs) - lagMs / 2);
+    return speaker ? { ...item, speaker } : item;
+  }
+
+  private buildReplayContext(): string {
+    if (this.recentTurns.length === 0) return '';
+    return `The connection was interrupted and this is a new session. Recent conversation, for context only (do not respond):
+${formatTranscriptForPrompt(this.recentTurns)}`;
+  }
+
+  private async startAudioStream(source: CaptureSource, stream: MediaStream) {
+    const channel = this.channels.get(source);
+    if (!channel) return;
+
+    try {
+      // Frames arrive as 16kHz PCM16 from the capture worklet
+      const capture = await AudioCapture.start(stream, (samples) => this.sendFrame(source, channel, samples), {
+        frameSize: this.config.frameSize,
+      });
+      if (this.channels.get(source) !== channel) {
+        capture.stop(); // Disconnected while the worklet was loading
+        return;
       }
-    };
+      channel.capture = capture;
+    } catch (error) {
+      console.error(`Audio capture failed (${source}):`, error);
+      this.telemetry.error(`Audio capture failed (${source}): ${errorMessage(error)}`);
+      this.stopAllAudioStreams();
+      this.emit('state', ConnectionState.ERROR);
+    }
+  }
 
-    this.mediaStreamSource.connect(this.scriptProcessor);
-    this.scriptProcessor.connect(this.inputAudioContext.destination);
+  async replayRecording(samples: Int16Array, options: ReplayOptions) {
+    const channel = this.channels.get(TranscriptSource.REMOTE);
+    if (!channel) throw new Error('Connect before replaying a recording.');
+
+    this.playbackRate = options.speed;
+    const frames = splitFrames(samples, this.config.frameSize);
+    const totalMs = (samples.length / TARGET_SAMPLE_RATE) * 1000;
+    let sentMs = 0;
+    let reportedMs = 0;
+    for (const frame of frames) {
+      if (this.channels.get(TranscriptSource.REMOTE) !== channel) return; // Disconnected
+      // Hold the recording's position while listening is paused
+      while (this.paused && this.channels.get(TranscriptSource.REMOTE) === channel) {
+        await new Promise(resolve => setTimeout(resolve, REPLAY_PROGRESS_INTERVAL_MS));
+      }
+      this.sendFrame(TranscriptSource.REMOTE, channel, frame, this.clock()); // Sent as it starts playing
+      sentMs += frameMs(frame);
+      if (sentMs - reportedMs >= REPLAY_PROGRESS_INTERVAL_MS || sentMs >= totalMs) {
+        reportedMs = sentMs;
+        this.emit('replayProgress', { sentMs, totalMs });
+      }
+      await new Promise(resolve => setTimeout(resolve, frameMs(frame) / options.speed));
+    }
+    // The recording may end mid-utterance
+    channel.session.sendAudio({ audioStreamEnd: true });
   }
 
-  private stopAudioStream() {
-    if (this.mediaStreamSource) {
-      this.mediaStreamSource.disconnect();
-      this.mediaStreamSource = null;
+  // Sends a captured frame, skipping silence when voice activity detection is on.
+  // The session buffers whatever is sent while it reconnects. `capturedAt` is the frame's start
+  // on the meeting clock; a live frame arrives once it has been captured.
+  private sendFrame(
+    source: CaptureSource,
+    channel: AudioChannel,
+    samples: Int16Array,
+    capturedAt: number = Math.max(0, this.clock() - frameMs(samples))
+  ) {
+    if (this.paused) return;
+    if (!channel.vad) {
+      if (source === TranscriptSource.REMOTE) this.diarizer?.process(samples, capturedAt);
+      channel.session.sendAudio({ media: createPcm16Blob(samples) });
+      this.telemetry.audioSent(source, frameMs(samples));
+      return;
     }
-    if (this.scriptProcessor) {
-      this.scriptProcessor.disconnect();
-      this.scriptProcessor = null;
+
+    const result = channel.vad.process(samples);
+    if (source === TranscriptSource.REMOTE) this.diarizer?.process(samples, capturedAt, result.isSpeech);
+    result.frames.forEach(frame => {
+      channel.session.sendAudio({ media: createPcm16Blob(frame) });
+      this.telemetry.audioSent(source, frameMs(frame));
+    });
+    // No trailing silence follows a skipped gap, so tell the server the utterance is over
+    if (result.speechEnded) {
+      channel.session.sendAudio({ audioStreamEnd: true });
     }
-    if (this.inputAudioContext) {
-      this.inputAudioContext.close();
-      this.inputAudioContext = null;
+
+    const now = Date.now();
+    if (result.isSpeech !== channel.reportedSpeech || now - channel.reportedAt >= VAD_REPORT_INTERVAL_MS) {
+      channel.reportedSpeech = result.isSpeech;
+      channel.reportedAt = now;
+      this.emit('voiceActivity', { source, isSpeech: result.isSpeech, stats: channel.vad.getStats() });
     }
   }
 
+  private stopAudioStream(channel: AudioChannel) {
+    channel.capture?.stop();
+    channel.capture = null;
+  }
+
+  private stopAllAudioStreams() {
+    this.assembler.completeAll();
+    this.channels.forEach((channel) => {
+      this.stopAudioStream(channel);
+    });
+    // Clear first so the close callbacks below are ignored
+    const channels = Array.from(this.channels.values());
+    this.channels.clear();
+    channels.forEach(channel => channel.session.close());
+  }
+
+  // Capture keeps running so resuming is instant; frames are dropped until then
+  pause() {
+    if (this.paused) return;
+    this.paused = true;
+    this.channels.forEach((channel, source) => {
+      channel.session.sendAudio({ audioStreamEnd: true });
+      if (channel.vad) {
+        channel.vad.interrupt();
+        channel.reportedSpeech = false;
+        this.emit('voiceActivity', { source, isSpeech: false, stats: channel.vad.getStats() });
+      }
+    });
+    this.assembler.completeAll();
+  }
+
+  resume() {
+    this.paused = false;
+  }
+
   async disconnect() {
-    if (this.sessionPromise) {
-        // There is no explicit .close() on the session object returned by promise, 
-        // but typically we stop sending data. The SDK manages cleanup on refresh/unmount usually.
-        // However, we should try to close if the API supported it.
-        // For now, we stop the audio stream which effectively pauses input.
-        this.stopAudioStream();
-        this.sessionPromise = null;
-    }
-    this.onStateChange(ConnectionState.DISCONNECTED);
+    // Stop sending audio and close every channel's session
+    this.stopAllAudioStreams();
+    this.telemetry.flush();
+    this.emit('state', ConnectionState.DISCONNECTED);
   }
 
-  requestSuggestion() {
-    if (this.sessionPromise) {
-      this.sessionPromise.then((session) => {
-        session.sendRealtimeInput([{ text: "Based on the conversation, suggest a response now." }]);
-      });
-    }
+  requestSuggestion(prompt: string) {
+    const primary = this.channels.get(TranscriptSource.REMOTE);
+    if (primary) this.telemetry.suggestionRequested();
+    primary?.session.sendClientContent({
+      turns: prompt,
+      turnComplete: true,
+    });
   }
 
-  private handleMessage(message: LiveServerMessage) {
-    // Handle Input Transcription (What the meeting is saying)
-    if (message.serverContent?.inputTranscription) {
-      const text = message.serverContent.inputTranscription.text;
+  // Forward what the user said to the primary session so suggestions know which turns were theirs
+  private forwardUserSpeech(text: string) {
+    const primary = this.channels.get(TranscriptSource.REMOTE);
+    primary?.session.sendClientContent({
+      turns: [{ role: 'user', parts: [{ text: `[Me]: ${text}` }] }],
+      turnComplete: false,
+    });
+  }
+
+  private handleMessage(source: CaptureSource, message: LiveServerMessage) {
+    this.telemetry.messageReceived(message.usageMetadata);
+    const content = message.serverContent;
+    if (!content) return;
+
+    // Handle Input Transcription (What was said on this channel)
+    if (content.inputTranscription) {
+      const text = content.inputTranscription.text;
       if (text) {
-        this.onTranscriptionUpdate({
-          id: Date.now().toString() + Math.random(),
-          timestamp: Date.now(),
-          text: text,
-          isUser: true,
-          isComplete: !!message.serverContent.turnComplete,
-        });
+        this.assembler.addFragment(source, text);
+      }
+      if (content.inputTranscription.finished) {
+        this.assembler.complete(source);
       }
     }
 
-    // Handle Output Transcription (The suggestion)
-    if (message.serverContent?.outputTranscription) {
-      const text = message.serverContent.outputTranscription.text;
-      if (text) {
-         this.onTranscriptionUpdate({
-          id: Date.now().toString() + Math.random(),
-          timestamp: Date.now(),
-          text: text,
-          isUser: false, // Model output
-          isComplete: !!message.serverContent.turnComplete,
-        });
+    // Handle Output Transcription (The suggestion). The microphone session must stay silent,
+    // so anything it produces is ignored.
+    if (source === TranscriptSource.REMOTE && content.outputTranscription?.text) {
+      this.assembler.addFragment(TranscriptSource.ASSISTANT, content.outputTranscription.text);
+      this.telemetry.suggestionOutput();
+    }
+
+    if (content.turnComplete) {
+      this.assembler.complete(source);
+      if (source === TranscriptSource.REMOTE) {
+        this.assembler.complete(TranscriptSource.ASSISTANT);
+        this.telemetry.suggestionCompleted();
       }
     }
   }
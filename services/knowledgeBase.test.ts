@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { KnowledgeDocument, TranscriptSource } from '../types';
+import { Bm25Index, buildKnowledgeIndex, buildKnowledgeQuery, chunkDocument, citedDocuments, tokenize } from './knowledgeBase';
+
+const document = (name: string, content: string): KnowledgeDocument => ({ id: name, name, content, importedAt: 0 });
+
+const PRICING = document(
+  'pricing-2024.md',
+  `# Pricing
+
+Plans are billed per seat.
+
+## Team
+
+The Team plan costs $12 per seat per month.
+
+## Enterprise
+
+The Enterprise plan costs $30 per seat per month with a yearly contract.
+
+### Support
+
+Enterprise customers get a named support engineer.`
+);
+
+const ONBOARDING = document(
+  'onboarding.txt',
+  `New customers get a kickoff call in the first week.
+
+Migration from spreadsheets usually takes two days.`
+);
+
+describe('tokenize', () => {
+  it('lowercases, keeps Unicode words and drops stopwords and single characters', () => {
+    expect(tokenize('What is the Größe of a Café plan?')).toEqual(['größe', 'café', 'plan']);
+  });
+});
+
+describe('chunkDocument', () => {
+  it('starts a chunk at every heading and records the heading path', () => {
+    const chunks = chunkDocument(PRICING);
+    expect(chunks.map(({ heading, text }) => ({ heading, text }))).toEqual([
+      { heading: 'Pricing', text: 'Plans are billed per seat.' },
+      { heading: 'Pricing › Team', text: 'The Team plan costs $12 per seat per month.' },
+      { heading: 'Pricing › Enterprise', text: 'The Enterprise plan costs $30 per seat per month with a yearly contract.' },
+      { heading: 'Pricing › Enterprise › Support', text: 'Enterprise customers get a named support engineer.' },
+    ]);
+    expect(chunks.map(chunk => chunk.id)).toEqual(['pricing-2024.md-0', 'pricing-2024.md-1', 'pricing-2024.md-2', 'pricing-2024.md-3']);
+  });
+
+  it('drops deeper headings when a shallower one follows', () => {
+    const chunks = chunkDocument(document('notes.md', '# A\n## B\none\n# C\ntwo'));
+    expect(chunks.map(chunk => chunk.heading)).toEqual(['A › B', 'C']);
+  });
+
+  it('merges paragraphs of a section into one chunk while they fit', () => {
+    const [chunk] = chunkDocument(ONBOARDING);
+    expect(chunk.heading).toBeUndefined();
+    expect(chunk.text).toBe(
+      'New customers get a kickoff call in the first week.\n\nMigration from spreadsheets usually takes two days.'
+    );
+  });
+
+  it('splits long paragraphs at sentence ends', () => {
+    const sentence = 'This sentence is about fifty characters long, roughly. ';
+    const chunks = chunkDocument(document('long.md', sentence.repeat(30)));
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => {
+      expect(chunk.text.length).toBeLessThanOrEqual(800);
+      expect(chunk.text.endsWith('roughly.')).toBe(true);
+    });
+  });
+
+  it('cuts a single sentence longer than the limit', () => {
+    const chunks = chunkDocument(document('run-on.md', 'x'.repeat(2000)));
+    expect(chunks.map(chunk => chunk.text.length)).toEqual([800, 800, 400]);
+  });
+});
+
+describe('Bm25Index', () => {
+  const index = buildKnowledgeIndex([PRICING, ONBOARDING]);
+
+  it('ranks the chunk that matches the query best first', () => {
+    const results = index.search('How much is the enterprise plan per seat?', 3);
+    expect(results[0].chunk.heading).toBe('Pricing › Enterprise');
+    expect(results.map(result => result.score)).toEqual([...results.map(result => result.score)].sort((a, b) => b - a));
+  });
+
+  it('finds sections through their heading and the document title', () => {
+    expect(index.search('support', 1)[0].chunk.heading).toBe('Pricing › Enterprise › Support');
+    expect(index.search('onboarding', 1)[0].chunk.documentName).toBe('onboarding.txt');
+  });
+
+  it('weighs rare terms above common ones', () => {
+    // "seat" is in three chunks, "kickoff" in one
+    expect(index.search('seat kickoff', 1)[0].chunk.documentName).toBe('onboarding.txt');
+  });
+
+  it('leaves out chunks sharing no term with the query and respects the limit', () => {
+    expect(index.search('kickoff', 5)).toHaveLength(1);
+    expect(index.search('weather forecast', 5)).toEqual([]);
+    expect(index.search('plan', 2)).toHaveLength(2);
+  });
+
+  it('returns nothing from an empty index', () => {
+    expect(new Bm25Index([]).search('pricing', 3)).toEqual([]);
+  });
+});
+
+describe('buildKnowledgeQuery', () => {
+  it('uses the most recent spoken lines only', () => {
+    const item = (text: string, source: TranscriptSource) => ({ id: text, timestamp: 0, text, source, isComplete: true });
+    const transcript = [
+      item('Hello', TranscriptSource.ME),
+      item('What about pricing?', TranscriptSource.REMOTE),
+      item('Suggested reply', TranscriptSource.ASSISTANT),
+      item('For enterprise', TranscriptSource.REMOTE),
+    ];
+    expect(buildKnowledgeQuery(transcript, 2)).toBe('What about pricing? For enterprise');
+  });
+});
+
+describe('citedDocuments', () => {
+  const names = ['pricing-2024.md', 'onboarding.txt', 'Security_FAQ.md'];
+
+  it('matches document titles loosely in the spoken suggestion', () => {
+    expect(citedDocuments('It is $30 per seat. Source: Pricing 2024', names)).toEqual(['pricing-2024.md']);
+    expect(citedDocuments('See the security FAQ and the onboarding doc.', names)).toEqual(['onboarding.txt', 'Security_FAQ.md']);
+  });
+
+  it('only matches whole words of the title', () => {
+    expect(citedDocuments('We discussed onboardings and pricing 20245 yesterday.', names)).toEqual([]);
+  });
+
+  it('ignores titles made only of stopwords', () => {
+    expect(citedDocuments('What is it about?', ['what-is-it.md'])).toEqual([]);
+  });
+});
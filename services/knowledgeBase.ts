@@ -0,0 +1,238 @@
+import { KnowledgeDocument, TranscriptionItem, TranscriptSource } from '../types';
+import { loadSetting, saveSetting } from './localSettings';
+
+export interface KnowledgeSettings {
+  enabled: boolean;
+  maxPassages: number; // Attached to each suggestion request
+}
+
+export const DEFAULT_KNOWLEDGE_SETTINGS: KnowledgeSettings = {
+  enabled: true,
+  maxPassages: 3,
+};
+
+export const MAX_PASSAGES_LIMIT = 8;
+
+// Chunks are merged paragraphs up to this size; longer paragraphs are split at sentence ends
+const CHUNK_MAX_CHARS = 800;
+// Spoken lines the retrieval query is built from
+const QUERY_TURNS = 6;
+
+// BM25 parameters: term frequency saturation and document length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set(
+  ('a an and are as at be but by can could did do does for from had has have how i if in into is it its ' +
+    'just me my no not of on or our so that the their them then there these they this to up us was we were ' +
+    'what when where which who why will with would you your yeah okay ok um uh like get got going know think')
+    .split(' ')
+);
+
+export interface KnowledgeChunk {
+  id: string;
+  documentId: string;
+  documentName: string;
+  heading?: string; // The Markdown section the chunk belongs to, e.g. "Pricing › Enterprise"
+  text: string;
+}
+
+export interface KnowledgeResult {
+  chunk: KnowledgeChunk;
+  score: number;
+}
+
+export function createKnowledgeDocument(name: string, content: string, importedAt: number = Date.now()): KnowledgeDocument {
+  return { id: `doc-${importedAt}-${Math.random().toString(36).slice(2, 8)}`, name, content, importedAt };
+}
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(token => token.length > 1 && !STOPWORDS.has(token));
+}
+
+// A speakable title for a file name: "pricing-2024.md" becomes "pricing 2024"
+export function documentTitle(name: string): string {
+  return name.replace(/\.(md|markdown|txt)$/i, '').replace(/[-_.]+/g, ' ').trim();
+}
+
+function splitLongParagraph(paragraph: string): string[] {
+  if (paragraph.length <= CHUNK_MAX_CHARS) return [paragraph];
+  const parts: string[] = [];
+  let current = '';
+  (paragraph.match(/[^.!?]+(?:[.!?]+|$)\s*/g) ?? [paragraph]).forEach(sentence => {
+    if (current && current.length + sentence.length > CHUNK_MAX_CHARS) {
+      parts.push(current.trim());
+      current = '';
+    }
+    current += sentence;
+  });
+  if (current.trim()) parts.push(current.trim());
+  // A single sentence longer than the limit is cut at the limit
+  return parts.flatMap(part => {
+    const pieces: string[] = [];
+    for (let at = 0; at < part.length; at += CHUNK_MAX_CHARS) pieces.push(part.slice(at, at + CHUNK_MAX_CHARS));
+    return pieces;
+  });
+}
+
+/**
+ * Splits a Markdown or text document into passages. Chunks never cross a heading, so each one
+ * can say which section it came from, and paragraphs are kept whole where they fit.
+ */
+export function chunkDocument(document: KnowledgeDocument): KnowledgeChunk[] {
+  const chunks: KnowledgeChunk[] = [];
+  const headings: string[] = [];
+  let paragraphs: string[] = [];
+  let current = '';
+
+  const push = (text: string) => {
+    if (!text.trim()) return;
+    chunks.push({
+      id: `${document.id}-${chunks.length}`,
+      documentId: document.id,
+      documentName: document.name,
+      heading: headings.filter(Boolean).join(' › ') || undefined,
+      text: text.trim(),
+    });
+  };
+
+  const flushSection = () => {
+    paragraphs.flatMap(splitLongParagraph).forEach(paragraph => {
+      if (current && current.length + paragraph.length + 2 > CHUNK_MAX_CHARS) {
+        push(current);
+        current = '';
+      }
+      current = current ? `${current}\n\n${paragraph}` : paragraph;
+    });
+    push(current);
+    paragraphs = [];
+    current = '';
+  };
+
+  let paragraph: string[] = [];
+  const endParagraph = () => {
+    if (paragraph.length > 0) paragraphs.push(paragraph.join('\n'));
+    paragraph = [];
+  };
+
+  document.content.split(/\r?\n/).forEach(line => {
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      endParagraph();
+      flushSection();
+      const level = heading[1].length;
+      headings.length = level - 1;
+      headings[level - 1] = heading[2].trim();
+    } else if (!line.trim()) {
+      endParagraph();
+    } else {
+      paragraph.push(line);
+    }
+  });
+  endParagraph();
+  flushSection();
+  return chunks;
+}
+
+/**
+ * Okapi BM25 over the chunks of every document. The document title and section heading are
+ * indexed with the text, so "what's the enterprise price" finds the "Pricing › Enterprise" section.
+ */
+export class Bm25Index {
+  private chunks: KnowledgeChunk[];
+  private termCounts: Map<string, number>[] = [];
+  private lengths: number[] = [];
+  private documentFrequency = new Map<string, number>();
+  private averageLength = 0;
+
+  constructor(chunks: KnowledgeChunk[]) {
+    this.chunks = chunks;
+    chunks.forEach(chunk => {
+      const tokens = tokenize(`${documentTitle(chunk.documentName)} ${chunk.heading ?? ''} ${chunk.text}`);
+      const counts = new Map<string, number>();
+      tokens.forEach(token => counts.set(token, (counts.get(token) ?? 0) + 1));
+      counts.forEach((_, token) => this.documentFrequency.set(token, (this.documentFrequency.get(token) ?? 0) + 1));
+      this.termCounts.push(counts);
+      this.lengths.push(tokens.length);
+    });
+    this.averageLength = this.lengths.reduce((sum, length) => sum + length, 0) / Math.max(1, chunks.length);
+  }
+
+  get size(): number {
+    return this.chunks.length;
+  }
+
+  // The best matching chunks, highest score first; chunks sharing no term with the query are left out
+  search(query: string, limit: number): KnowledgeResult[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    const total = this.chunks.length;
+    const results: KnowledgeResult[] = [];
+
+    this.chunks.forEach((chunk, i) => {
+      const counts = this.termCounts[i];
+      let score = 0;
+      terms.forEach(term => {
+        const frequency = counts.get(term);
+        if (!frequency) return;
+        const containing = this.documentFrequency.get(term) ?? 0;
+        const idf = Math.log(1 + (total - containing + 0.5) / (containing + 0.5));
+        const norm = 1 - BM25_B + BM25_B * (this.lengths[i] / (this.averageLength || 1));
+        score += idf * ((frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * norm));
+      });
+      if (score > 0) results.push({ chunk, score });
+    });
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
+
+export function buildKnowledgeIndex(documents: KnowledgeDocument[]): Bm25Index {
+  return new Bm25Index(documents.flatMap(chunkDocument));
+}
+
+// What was said most recently, which is what the next suggestion has to answer
+export function buildKnowledgeQuery(transcript: TranscriptionItem[], turns: number = QUERY_TURNS): string {
+  return transcript
+    .filter(item => item.source !== TranscriptSource.ASSISTANT && item.text.trim())
+    .slice(-turns)
+    .map(item => item.text)
+    .join(' ');
+}
+
+// The retrieved passages as a prompt section; empty when nothing matched
+export function formatPassagesForPrompt(results: KnowledgeResult[]): string {
+  if (results.length === 0) return '';
+  const passages = results.map(({ chunk }, i) => {
+    const where = chunk.heading ? `"${documentTitle(chunk.documentName)}", section "${chunk.heading}"` : `"${documentTitle(chunk.documentName)}"`;
+    return `[${i + 1}] From ${where}:\n${chunk.text}`;
+  });
+  return `Passages from the user's team documents that may be relevant. Prefer these facts over your own knowledge, and ignore passages that do not fit the conversation:
+${passages.join('\n\n')}
+If the response uses a passage, end it with "Source:" followed by the document title, e.g. "Source: ${documentTitle(results[0].chunk.documentName)}".`;
+}
+
+// Titles of the documents the passages came from, each once
+export function passageDocuments(results: KnowledgeResult[]): string[] {
+  return Array.from(new Set(results.map(({ chunk }) => chunk.documentName)));
+}
+
+const normalizeForMatch = (text: string) => ` ${tokenize(text).join(' ')} `;
+
+// The documents a suggestion cites, matched loosely because suggestions are transcribed speech
+export function citedDocuments(text: string, documentNames: string[] = []): string[] {
+  const spoken = normalizeForMatch(text);
+  return documentNames.filter(name => {
+    const title = normalizeForMatch(documentTitle(name));
+    return title.trim() !== '' && spoken.includes(title);
+  });
+}
+
+const KNOWLEDGE_SETTINGS_KEY = 'knowledgeSettings';
+
+export function loadKnowledgeSettings(): KnowledgeSettings {
+  return { ...DEFAULT_KNOWLEDGE_SETTINGS, ...loadSetting<Partial<KnowledgeSettings>>(KNOWLEDGE_SETTINGS_KEY, {}) };
+}
+
+export function saveKnowledgeSettings(settings: KnowledgeSettings) {
+  saveSetting(KNOWLEDGE_SETTINGS_KEY, settings);
+}
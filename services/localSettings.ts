@@ -0,0 +1,20 @@
+// Small user preferences live in localStorage; meeting data goes to IndexedDB (see sessionStore)
+const KEY_PREFIX = 'meeting-assistant.';
+
+export function loadSetting<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(KEY_PREFIX + key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch (err) {
+    console.error(`Failed to read setting "${key}":`, err);
+    return fallback;
+  }
+}
+
+export function saveSetting<T>(key: string, value: T) {
+  try {
+    localStorage.setItem(KEY_PREFIX + key, JSON.stringify(value));
+  } catch (err) {
+    console.error(`Failed to save setting "${key}":`, err);
+  }
+}
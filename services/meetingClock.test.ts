@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMeetingClock } from './meetingClock';
+
+describe('createMeetingClock', () => {
+  let now = 0;
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const start = (rate?: number) => {
+    now = 1000;
+    vi.spyOn(performance, 'now').mockImplementation(() => now);
+    return createMeetingClock(rate);
+  };
+
+  it('counts from when it was created, scaled by the rate', () => {
+    const clock = start(2);
+    now += 1500;
+    expect(clock()).toBe(3000);
+  });
+
+  it('leaves paused time out', () => {
+    const clock = start();
+    now += 2000;
+    clock.pause();
+    now += 5000;
+    expect(clock()).toBe(2000);
+    clock.resume();
+    now += 1000;
+    expect(clock()).toBe(3000);
+  });
+
+  it('ignores repeated pause and resume calls', () => {
+    const clock = start();
+    clock.resume();
+    now += 1000;
+    clock.pause();
+    now += 1000;
+    clock.pause();
+    now += 1000;
+    clock.resume();
+    clock.resume();
+    expect(clock()).toBe(1000);
+  });
+});
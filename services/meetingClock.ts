@@ -0,0 +1,35 @@
+import { TranscriptionItem } from '../types';
+
+// Milliseconds since the meeting (and its recording) started, not counting time spent paused
+export type MeetingClock = () => number;
+
+// A meeting clock that stands still while capture is paused, like the recording paused with it
+export interface PausableMeetingClock extends MeetingClock {
+  pause(): void;
+  resume(): void;
+}
+
+// Monotonic, so wall-clock adjustments during a meeting do not shift transcript offsets.
+// `rate` maps elapsed time to meeting time, e.g. 2 when a recording is replayed at double speed.
+export function createMeetingClock(rate: number = 1): PausableMeetingClock {
+  let origin = performance.now();
+  let pausedAt: number | null = null;
+  const clock = () => Math.round(((pausedAt ?? performance.now()) - origin) * rate);
+  return Object.assign(clock, {
+    pause() {
+      if (pausedAt === null) pausedAt = performance.now();
+    },
+    resume() {
+      if (pausedAt === null) return;
+      origin += performance.now() - pausedAt;
+      pausedAt = null;
+    },
+  });
+}
+
+// Meeting-relative start and end of an item. Items saved before offsets existed fall back to wall-clock time.
+export function itemOffsets(item: TranscriptionItem, startedAt: number): { start: number; end: number } {
+  const start = item.offsetMs ?? Math.max(0, item.timestamp - startedAt);
+  const end = item.endOffsetMs ?? Math.max(start, (item.endTimestamp ?? item.timestamp) - startedAt);
+  return { start, end };
+}
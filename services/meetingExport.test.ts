@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { MeetingSession, SuggestionRecord, TranscriptSource } from '../types';
+import {
+  EXPORT_SCHEMA,
+  exportJson,
+  exportMarkdown,
+  exportSrt,
+  exportVtt,
+  formatTimecode,
+  parseJson,
+  parseMarkdown,
+  parseSubtitles,
+  parseTimecode,
+} from './meetingExport';
+
+const STARTED_AT = Date.UTC(2025, 0, 15, 9, 0, 0);
+
+const suggestion: SuggestionRecord = {
+  id: 's1',
+  text: 'Could we split the export into batches?',
+  createdAt: STARTED_AT + 9000,
+  isComplete: true,
+  trigger: 'Suggest',
+  modeId: 'default',
+  prompt: 'Suggest a reply',
+  transcriptIndex: 2,
+  rating: 'up',
+};
+
+const session: MeetingSession = {
+  id: 'meeting-1',
+  title: 'Roadmap sync',
+  startedAt: STARTED_AT,
+  endedAt: STARTED_AT + 60000,
+  transcript: [
+    {
+      id: 'a',
+      timestamp: STARTED_AT + 1000,
+      endTimestamp: STARTED_AT + 3500,
+      offsetMs: 1000,
+      endOffsetMs: 3500,
+      text: "Let's go over the roadmap.",
+      source: TranscriptSource.REMOTE,
+      isComplete: true,
+      speaker: 'Speaker 1',
+      translation: 'Gehen wir die Roadmap durch.',
+    },
+    {
+      id: 'b',
+      timestamp: STARTED_AT + 4000,
+      endTimestamp: STARTED_AT + 6250,
+      offsetMs: 4000,
+      endOffsetMs: 6250,
+      text: 'What is blocking the migration?',
+      source: TranscriptSource.ME,
+      isComplete: true,
+    },
+  ],
+  suggestions: [suggestion],
+};
+
+// The fields the text formats carry; ids and wall-clock timestamps are rebuilt on import
+const portable = (s: MeetingSession) =>
+  s.transcript.map(({ text, source, speaker, translation }) => ({ text, source, speaker, translation }));
+
+describe('timecodes', () => {
+  it('formats and parses both separators', () => {
+    expect(formatTimecode(3723004, ',')).toBe('01:02:03,004');
+    expect(parseTimecode('01:02:03,004')).toBe(3723004);
+    expect(parseTimecode('02:03.004')).toBe(123004);
+  });
+
+  it('rejects malformed values', () => {
+    expect(() => parseTimecode('1:2:3')).toThrow('Invalid timecode');
+  });
+});
+
+describe('Markdown', () => {
+  it('round-trips the transcript, speakers and translations', () => {
+    const items = parseMarkdown(exportMarkdown(session), STARTED_AT);
+    expect(items.map(({ text, source, speaker, translation }) => ({ text, source, speaker, translation })))
+      .toEqual(portable(session));
+    // Markdown keeps whole seconds only
+    expect(items.map(item => item.offsetMs)).toEqual([1000, 4000]);
+  });
+
+  it('ignores the summary, suggestion and audit sections', () => {
+    const markdown = exportMarkdown({
+      ...session,
+      summary: { overview: 'Roadmap review.', decisions: ['Keep scope'], actionItems: [], openQuestions: [], generatedAt: STARTED_AT + 60000 },
+      auditLog: [{ type: 'captureStarted', at: STARTED_AT }],
+    });
+    expect(parseMarkdown(markdown, STARTED_AT)).toHaveLength(2);
+  });
+
+  it('writes participant names in place of speaker labels', () => {
+    const markdown = exportMarkdown({ ...session, speakerNames: { 'Speaker 1': 'Dana' } });
+    expect(markdown).toContain('- Participants: Dana');
+    expect(parseMarkdown(markdown, STARTED_AT)[0]).toMatchObject({ source: TranscriptSource.REMOTE, speaker: 'Dana' });
+  });
+});
+
+describe.each([
+  ['SRT', exportSrt],
+  ['WebVTT', exportVtt],
+])('%s', (_, exporter) => {
+  it('round-trips text, speakers, translations and cue timing', () => {
+    const items = parseSubtitles(exporter(session), STARTED_AT);
+    expect(items.map(({ text, source, speaker, translation }) => ({ text, source, speaker, translation })))
+      .toEqual(portable(session));
+    expect(items.map(item => [item.offsetMs, item.endOffsetMs])).toEqual([[1000, 3500], [4000, 6250]]);
+    expect(items[1].timestamp).toBe(STARTED_AT + 4000);
+  });
+});
+
+describe('JSON', () => {
+  it('round-trips the whole session with schema v2', () => {
+    const content = exportJson(session);
+    expect(JSON.parse(content)).toMatchObject({ schema: EXPORT_SCHEMA, version: 2 });
+    expect(parseJson(content)).toEqual(session);
+  });
+
+  it('migrates v1 suggestions stored as transcript items', () => {
+    const v1 = JSON.stringify({
+      schema: EXPORT_SCHEMA,
+      version: 1,
+      exportedAt: STARTED_AT,
+      session: {
+        ...session,
+        suggestions: [{ id: 'old', text: 'Say yes', timestamp: STARTED_AT, source: TranscriptSource.ASSISTANT, isComplete: true }],
+      },
+    });
+    expect(parseJson(v1).suggestions[0]).toMatchObject({ id: 'old', text: 'Say yes', trigger: 'Suggestion', isComplete: true });
+  });
+
+  it('rejects other files, newer versions and missing fields', () => {
+    expect(() => parseJson('not json')).toThrow('not valid JSON');
+    expect(() => parseJson(JSON.stringify({ schema: 'other' }))).toThrow('not a Meeting Assistant export');
+    expect(() => parseJson(JSON.stringify({ schema: EXPORT_SCHEMA, version: 3, session }))).toThrow('Unsupported export version');
+    expect(() => parseJson(JSON.stringify({ schema: EXPORT_SCHEMA, version: 2, session: { id: 'x' } }))).toThrow('missing required');
+  });
+});
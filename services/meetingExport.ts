@@ -0,0 +1,307 @@
+import { MeetingSession, TranscriptionItem, TranscriptSource } from '../types';
+import { itemOffsets } from './meetingClock';
+import { migrateSuggestions } from './suggestionHistory';
+import { speakerName } from './speakerDiarization';
+import { formatAuditEntry } from './consent';
+
+// Identifies files produced by exportJson so they can be imported back
+export const EXPORT_SCHEMA = 'meeting-assistant/session';
+// v2: suggestions are SuggestionRecords (trigger, rating, ...) instead of transcript items
+export const EXPORT_SCHEMA_VERSION = 2;
+
+export interface MeetingExportFile {
+  schema: typeof EXPORT_SCHEMA;
+  version: number;
+  exportedAt: number;
+  session: MeetingSession;
+}
+
+export type ExportFormat = 'markdown' | 'srt' | 'vtt' | 'json';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  srt: { label: 'SRT', extension: 'srt', mimeType: 'application/x-subrip' },
+  vtt: { label: 'WebVTT', extension: 'vtt', mimeType: 'text/vtt' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+};
+
+const SPEAKER_LABELS: Record<TranscriptSource, string> = {
+  [TranscriptSource.ME]: 'Me',
+  [TranscriptSource.REMOTE]: 'Meeting',
+  [TranscriptSource.ASSISTANT]: 'Assistant',
+};
+
+// Marks the translation line under a cue's text in SRT/WebVTT
+const TRANSLATION_MARKER = '→ ';
+
+// How long a download's object URL is kept before it is released
+const DOWNLOAD_REVOKE_DELAY_MS = 10000;
+
+// Used when an utterance has no recorded end (e.g. sessions saved before end times existed)
+const MIN_CUE_DURATION_MS = 1000;
+
+// Remote lines are labelled with the participant's name (or "Speaker N") when known
+function labelFor(item: TranscriptionItem, names?: Record<string, string>): string {
+  return item.source === TranscriptSource.REMOTE && item.speaker ? speakerName(item.speaker, names) : SPEAKER_LABELS[item.source];
+}
+
+// Any label that is not one of the fixed ones is a remote participant
+function speakerFromLabel(label: string): Pick<TranscriptionItem, 'source' | 'speaker'> {
+  const entry = Object.entries(SPEAKER_LABELS).find(([, value]) => value === label);
+  return entry ? { source: entry[0] as TranscriptSource } : { source: TranscriptSource.REMOTE, speaker: label };
+}
+
+function pad(value: number, length: number = 2): string {
+  return value.toString().padStart(length, '0');
+}
+
+// Milliseconds to HH:MM:SS<separator>mmm
+export function formatTimecode(ms: number, separator: ',' | '.'): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+}
+
+export function parseTimecode(value: string): number {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{2}):(\d{2})[,.](\d{3})$/);
+  if (!match) throw new Error(`Invalid timecode "${value}"`);
+  const [, hours = '0', minutes, seconds, millis] = match;
+  return Number(hours) * 3600000 + Number(minutes) * 60000 + Number(seconds) * 1000 + Number(millis);
+}
+
+// Offsets of an item relative to the meeting start, long enough to be shown as a cue
+function itemRange(item: TranscriptionItem, startedAt: number): { start: number; end: number } {
+  const { start, end } = itemOffsets(item, startedAt);
+  return { start, end: Math.max(start + MIN_CUE_DURATION_MS, end) };
+}
+
+function itemFromOffsets(
+  index: number,
+  startedAt: number,
+  startMs: number,
+  endMs: number,
+  label: string,
+  text: string
+): TranscriptionItem {
+  return {
+    ...speakerFromLabel(label),
+    id: `imported-${index}`,
+    timestamp: startedAt + startMs,
+    endTimestamp: startedAt + endMs,
+    offsetMs: startMs,
+    endOffsetMs: endMs,
+    text,
+    isComplete: true,
+  };
+}
+
+// --- Markdown ---
+
+export function exportMarkdown(session: MeetingSession): string {
+  const lines = [
+    `# ${session.title}`,
+    '',
+    `- Started: ${new Date(session.startedAt).toISOString()}`,
+  ];
+  if (session.endedAt) lines.push(`- Ended: ${new Date(session.endedAt).toISOString()}`);
+  if (session.translationLanguage) lines.push(`- Translated to: ${session.translationLanguage}`);
+  const participants = Object.values(session.speakerNames ?? {}).map(name => name.trim()).filter(Boolean);
+  if (participants.length > 0) lines.push(`- Participants: ${participants.join(', ')}`);
+  lines.push('');
+
+  if (session.summary) {
+    const { overview, decisions, actionItems, openQuestions } = session.summary;
+    lines.push('## Summary', '', overview, '');
+    if (decisions.length > 0) {
+      lines.push('### Decisions', '', ...decisions.map(decision => `- ${decision}`), '');
+    }
+    if (actionItems.length > 0) {
+      lines.push('### Action Items', '');
+      actionItems.forEach(({ task, owner, dueDate }) => {
+        const details = [owner && `owner: ${owner}`, dueDate && `due: ${dueDate}`].filter(Boolean).join(', ');
+        lines.push(`- [ ] ${task}${details ? ` (${details})` : ''}`);
+      });
+      lines.push('');
+    }
+    if (openQuestions.length > 0) {
+      lines.push('### Open Questions', '', ...openQuestions.map(question => `- ${question}`), '');
+    }
+  }
+
+  lines.push('## Transcript', '');
+
+  session.transcript.forEach(item => {
+    const { start } = itemRange(item, session.startedAt);
+    lines.push(`**[${formatTimecode(start, '.').slice(0, 8)}] ${labelFor(item, session.speakerNames)}:** ${item.text}`);
+    if (item.translation) lines.push(`> ${item.translation}`);
+    lines.push('');
+  });
+
+  if (session.suggestions.length > 0) {
+    lines.push('## Suggestions', '');
+    session.suggestions.forEach(suggestion => {
+      const offset = formatTimecode(suggestion.createdAt - session.startedAt, '.').slice(0, 8);
+      const rating = suggestion.rating === 'up' ? ' 👍' : suggestion.rating === 'down' ? ' 👎' : '';
+      lines.push(`- [${offset}] *${suggestion.trigger}:* ${suggestion.text}${rating}`);
+      if (suggestion.backTranslation) lines.push(`  - ${suggestion.backTranslation}`);
+    });
+    lines.push('');
+  }
+
+  if (session.auditLog?.length) {
+    lines.push('## Audit Log', '', ...session.auditLog.map(entry => `- ${formatAuditEntry(entry)}`), '');
+  }
+
+  return lines.join('\n');
+}
+
+// Reads back the transcript lines (and their translations) written by exportMarkdown
+export function parseMarkdown(markdown: string, startedAt: number): TranscriptionItem[] {
+  const items: TranscriptionItem[] = [];
+  markdown.split(/\r?\n/).forEach(line => {
+    const last = items[items.length - 1];
+    if (last && line.startsWith('> ')) {
+      last.translation = line.slice(2);
+      return;
+    }
+    const match = line.match(/^\*\*\[(\d{2}:\d{2}:\d{2})\] ([^:]+):\*\* (.*)$/);
+    if (!match) return;
+    const start = parseTimecode(`${match[1]}.000`);
+    items.push(itemFromOffsets(items.length, startedAt, start, start, match[2], match[3]));
+  });
+  return items;
+}
+
+// --- SRT / WebVTT ---
+
+export function exportSrt(session: MeetingSession): string {
+  return session.transcript
+    .map((item, index) => {
+      const { start, end } = itemRange(item, session.startedAt);
+      return [
+        `${index + 1}`,
+        `${formatTimecode(start, ',')} --> ${formatTimecode(end, ',')}`,
+        `${labelFor(item, session.speakerNames)}: ${item.text}`,
+        ...(item.translation ? [`${TRANSLATION_MARKER}${item.translation}`] : []),
+      ].join('\n');
+    })
+    .join('\n\n') + '\n';
+}
+
+export function exportVtt(session: MeetingSession): string {
+  const cues = session.transcript.map(item => {
+    const { start, end } = itemRange(item, session.startedAt);
+    return [
+      `${formatTimecode(start, '.')} --> ${formatTimecode(end, '.')}`,
+      `<v ${labelFor(item, session.speakerNames)}>${item.text}`,
+      ...(item.translation ? [`${TRANSLATION_MARKER}${item.translation}`] : []),
+    ].join('\n');
+  });
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+// Parses both SRT and WebVTT cue blocks produced by the exporters above
+export function parseSubtitles(content: string, startedAt: number): TranscriptionItem[] {
+  const items: TranscriptionItem[] = [];
+  content
+    .replace(/\r\n/g, '\n')
+    .split(/\n{2,}/)
+    .forEach(block => {
+      const lines = block.trim().split('\n');
+      const timingIndex = lines.findIndex(line => line.includes('-->'));
+      if (timingIndex === -1) return; // Header, numbering-only or note block
+
+      const [startText, endText] = lines[timingIndex].split('-->');
+      const cueLines = lines.slice(timingIndex + 1);
+      const translation = cueLines.find(line => line.startsWith(TRANSLATION_MARKER));
+      const body = cueLines.filter(line => line !== translation).join('\n');
+      const match = body.match(/^<v ([^>]+)>([\s\S]*)$/) || body.match(/^([^:]+): ([\s\S]*)$/);
+      if (!match) throw new Error(`Cue without a speaker: "${body}"`);
+
+      const item = itemFromOffsets(
+        items.length,
+        startedAt,
+        parseTimecode(startText),
+        parseTimecode(endText.trim().split(/\s+/)[0]),
+        match[1],
+        match[2]
+      );
+      if (translation) item.translation = translation.slice(TRANSLATION_MARKER.length);
+      items.push(item);
+    });
+  return items;
+}
+
+// --- JSON ---
+
+export function exportJson(session: MeetingSession): string {
+  const file: MeetingExportFile = {
+    schema: EXPORT_SCHEMA,
+    version: EXPORT_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    session,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+// Validates an exported file and returns the session it contains
+export function parseJson(content: string): MeetingSession {
+  let file: Partial<MeetingExportFile>;
+  try {
+    file = JSON.parse(content);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  if (file.schema !== EXPORT_SCHEMA) {
+    throw new Error('The file is not a Meeting Assistant export.');
+  }
+  if (typeof file.version !== 'number' || file.version > EXPORT_SCHEMA_VERSION) {
+    throw new Error(`Unsupported export version ${file.version}.`);
+  }
+
+  const session = file.session;
+  if (
+    !session ||
+    typeof session.id !== 'string' ||
+    typeof session.title !== 'string' ||
+    typeof session.startedAt !== 'number' ||
+    !Array.isArray(session.transcript) ||
+    !Array.isArray(session.suggestions)
+  ) {
+    throw new Error('The export is missing required session fields.');
+  }
+
+  return { ...session, suggestions: migrateSuggestions(session.suggestions) };
+}
+
+export function serializeSession(session: MeetingSession, format: ExportFormat): string {
+  switch (format) {
+    case 'markdown':
+      return exportMarkdown(session);
+    case 'srt':
+      return exportSrt(session);
+    case 'vtt':
+      return exportVtt(session);
+    case 'json':
+      return exportJson(session);
+  }
+}
+
+export function exportFileName(session: MeetingSession, format: ExportFormat): string {
+  const slug = session.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'meeting';
+  return `${slug}.${EXPORT_FORMATS[format].extension}`;
+}
+
+export function downloadSession(session: MeetingSession, format: ExportFormat) {
+  const { mimeType } = EXPORT_FORMATS[format];
+  const url = URL.createObjectURL(new Blob([serializeSession(session, format)], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = exportFileName(session, format);
+  link.click();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_REVOKE_DELAY_MS);
+}
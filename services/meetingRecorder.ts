@@ -0,0 +1,57 @@
+import { MeetingClock } from './meetingClock';
+
+// Preferred container/codec first; the browser picks the first one it supports
+const RECORDING_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+// How often MediaRecorder hands over data. The chunks stay in memory until stop(), so a crash
+// or a closed tab before then loses the whole recording.
+const RECORDING_TIMESLICE_MS = 1000;
+
+export interface FinishedRecording {
+  audio: Blob;
+  durationMs: number;
+}
+
+/**
+ * Records a stream with MediaRecorder. The recording starts together with the meeting clock,
+ * so transcript offsets from that clock line up with playback positions. Pause the clock along
+ * with the recorder to keep them lined up.
+ */
+export class MeetingRecorder {
+  private recorder: MediaRecorder;
+  private chunks: Blob[] = [];
+  private clock: MeetingClock;
+
+  constructor(stream: MediaStream, clock: MeetingClock) {
+    const mimeType = RECORDING_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    this.recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    this.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) this.chunks.push(event.data);
+    };
+    this.clock = clock;
+    this.recorder.start(RECORDING_TIMESLICE_MS);
+  }
+
+  // Paused time is left out of the recording, not recorded as silence
+  pause() {
+    if (this.recorder.state === 'recording') this.recorder.pause();
+  }
+
+  resume() {
+    if (this.recorder.state === 'paused') this.recorder.resume();
+  }
+
+  stop(): Promise<FinishedRecording> {
+    const durationMs = this.clock();
+    return new Promise((resolve, reject) => {
+      if (this.recorder.state === 'inactive') {
+        reject(new Error('The recording was already stopped.'));
+        return;
+      }
+      this.recorder.onstop = () => {
+        resolve({ audio: new Blob(this.chunks, { type: this.recorder.mimeType }), durationMs });
+      };
+      this.recorder.onerror = () => reject(new Error('Recording failed.'));
+      this.recorder.stop();
+    });
+  }
+}
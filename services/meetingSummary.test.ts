@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { parseSummary } from './meetingSummary';
+
+describe('parseSummary', () => {
+  it('keeps well-formed fields', () => {
+    const raw = JSON.stringify({
+      overview: 'Planned the launch.',
+      decisions: ['Ship on Friday'],
+      actionItems: [{ task: 'Write release notes', owner: 'Dana', dueDate: 'Thursday' }],
+      openQuestions: ['Who announces it?'],
+    });
+    expect(parseSummary(raw, 42)).toEqual({
+      overview: 'Planned the launch.',
+      decisions: ['Ship on Friday'],
+      actionItems: [{ task: 'Write release notes', owner: 'Dana', dueDate: 'Thursday' }],
+      openQuestions: ['Who announces it?'],
+      generatedAt: 42,
+    });
+  });
+
+  it('drops malformed entries and fills in missing fields', () => {
+    const raw = JSON.stringify({
+      decisions: ['Keep scope', 3, ' '],
+      actionItems: [{ task: 'Book a room', owner: ' ', dueDate: 5 }, { task: '' }, null, 'Call back'],
+    });
+    expect(parseSummary(raw, 1)).toEqual({
+      overview: '',
+      decisions: ['Keep scope'],
+      actionItems: [{ task: 'Book a room', owner: undefined, dueDate: undefined }],
+      openQuestions: [],
+      generatedAt: 1,
+    });
+  });
+
+  it('rejects responses that are not a JSON object', () => {
+    expect(() => parseSummary('Here is your summary')).toThrow('not valid JSON');
+    expect(() => parseSummary('null')).toThrow('was empty');
+  });
+});
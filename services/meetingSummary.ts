@@ -0,0 +1,122 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import { ActionItem, MeetingSummary, TranscriptionItem } from '../types';
+import { formatPinnedForPrompt, formatTranscriptForPrompt } from './promptContext';
+
+// Anything that can turn a prompt into a JSON summary. Swap in a stub to test without a model.
+export interface SummaryProvider {
+  generate(prompt: string): Promise<string>;
+}
+
+const SUMMARY_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    overview: { type: Type.STRING },
+    decisions: { type: Type.ARRAY, items: { type: Type.STRING } },
+    actionItems: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          task: { type: Type.STRING },
+          owner: { type: Type.STRING },
+          dueDate: { type: Type.STRING },
+        },
+        required: ['task'],
+      },
+    },
+    openQuestions: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ['overview', 'decisions', 'actionItems', 'openQuestions'],
+};
+
+export interface GeminiSummaryConfig {
+  apiKey: string;
+  model: string;
+}
+
+export const DEFAULT_GEMINI_SUMMARY_CONFIG: GeminiSummaryConfig = {
+  apiKey: process.env.API_KEY ?? '',
+  model: process.env.GEMINI_TEXT_MODEL || 'gemini-2.5-flash',
+};
+
+export class GeminiSummaryProvider implements SummaryProvider {
+  private ai: GoogleGenAI;
+  private model: string;
+
+  constructor(config: GeminiSummaryConfig = DEFAULT_GEMINI_SUMMARY_CONFIG) {
+    this.ai = new GoogleGenAI({ apiKey: config.apiKey });
+    this.model = config.model;
+  }
+
+  async generate(prompt: string): Promise<string> {
+    const response = await this.ai.models.generateContent({
+      model: this.model,
+      contents: prompt,
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: SUMMARY_SCHEMA,
+      },
+    });
+    return response.text ?? '';
+  }
+}
+
+export function buildSummaryPrompt(transcript: TranscriptionItem[]): string {
+  const pinned = formatPinnedForPrompt(transcript);
+  return `
+Summarize the following meeting transcript. Lines starting with "Me:" are the user's own words, "Others:" are the other participants.
+Respond with JSON containing:
+- overview: a short paragraph describing what the meeting was about and its outcome
+- decisions: the decisions that were made
+- actionItems: tasks that were agreed on, with the owner and due date only when they were actually mentioned
+- openQuestions: questions that were raised but not resolved
+Do not invent facts that are not in the transcript.
+
+Transcript:
+${formatTranscriptForPrompt(transcript)}
+${pinned ? `\n${pinned}\nMake sure the summary covers these lines.\n` : ''}`;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const nonBlankString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value : undefined;
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((entry): entry is string => nonBlankString(entry) !== undefined) : [];
+
+// Validates the model's JSON and fills in anything missing
+export function parseSummary(raw: string, generatedAt: number = Date.now()): MeetingSummary {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new Error('The summary response was not valid JSON.');
+  }
+  if (!isObject(data)) {
+    throw new Error('The summary response was empty.');
+  }
+
+  const actionItems: ActionItem[] = Array.isArray(data.actionItems)
+    ? data.actionItems.filter(isObject).flatMap(item => {
+        const task = nonBlankString(item.task);
+        return task ? [{ task, owner: nonBlankString(item.owner), dueDate: nonBlankString(item.dueDate) }] : [];
+      })
+    : [];
+
+  return {
+    overview: typeof data.overview === 'string' ? data.overview : '',
+    decisions: toStringList(data.decisions),
+    actionItems,
+    openQuestions: toStringList(data.openQuestions),
+    generatedAt,
+  };
+}
+
+export async function generateMeetingSummary(
+  transcript: TranscriptionItem[],
+  provider: SummaryProvider
+): Promise<MeetingSummary> {
+  const raw = await provider.generate(buildSummaryPrompt(transcript));
+  return parseSummary(raw);
+}
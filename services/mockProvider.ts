@@ -0,0 +1,174 @@
+import { AudioSources, ConnectionState, TranscriptSource } from '../types';
+import { BaseAssistantProvider, SessionOptions } from './assistantProvider';
+import { SummaryProvider } from './meetingSummary';
+import { TranslationProvider } from './translation';
+import { ReplayOptions } from './audioFile';
+import { TARGET_SAMPLE_RATE } from './audioPipeline';
+import { TranscriptAssembler } from './transcriptAssembler';
+
+export interface MockScriptLine {
+  delayMs: number; // Pause before this line starts, relative to the previous line
+  source: TranscriptSource.ME | TranscriptSource.REMOTE;
+  text: string;
+  speaker?: string; // Diarization label for remote lines
+}
+
+export interface MockProviderScript {
+  lines: MockScriptLine[];
+  suggestions: string[]; // Returned in order, one per requestSuggestion call, cycling
+}
+
+// Delay between words, so lines stream in as fragments just like a live transcription
+const MOCK_WORD_INTERVAL_MS = 120;
+const MOCK_CONNECT_DELAY_MS = 300;
+const MOCK_PROGRESS_INTERVAL_MS = 500;
+const MOCK_TRANSLATION_DELAY_MS = 200;
+
+export const DEFAULT_MOCK_SCRIPT: MockProviderScript = {
+  lines: [
+    { delayMs: 1000, source: TranscriptSource.REMOTE, speaker: 'Speaker 1', text: "Thanks everyone for joining. Let's go over the Q3 roadmap." },
+    { delayMs: 2500, source: TranscriptSource.REMOTE, speaker: 'Speaker 2', text: 'The main risk is the billing migration, which is slipping by two weeks.' },
+    { delayMs: 2500, source: TranscriptSource.ME, text: 'Do we know what is blocking it?' },
+    { delayMs: 2500, source: TranscriptSource.REMOTE, speaker: 'Speaker 2', text: 'Mostly the data export from the old system. Can you own the vendor follow-up?' },
+  ],
+  suggestions: [
+    "Yes, I can own the vendor follow-up. I'll reach out today and share an updated timeline by Friday.",
+    'Could we split the export into smaller batches so the migration is not blocked on the full dataset?',
+  ],
+};
+
+/**
+ * Deterministic provider that replays a scripted meeting instead of listening to audio.
+ * Lets the whole UI run offline and in tests.
+ */
+export class MockAssistantProvider extends BaseAssistantProvider {
+  private script: MockProviderScript;
+  private assembler: TranscriptAssembler;
+  private timers: ReturnType<typeof setTimeout>[] = [];
+  private isConnected = false;
+  private isPaused = false;
+  private remoteSpeaker: string | undefined;
+  private suggestionIndex = 0;
+
+  constructor(script: MockProviderScript = DEFAULT_MOCK_SCRIPT) {
+    super();
+    this.script = script;
+    this.assembler = new TranscriptAssembler((item) => {
+      const speaker = item.source === TranscriptSource.REMOTE ? this.remoteSpeaker : undefined;
+      this.emit('transcript', this.redactFinished(speaker ? { ...item, speaker } : item));
+    });
+  }
+
+  async connect(options: SessionOptions = {}) {
+    this.emit('state', ConnectionState.CONNECTING);
+    this.assembler.setClock(options.clock ?? null);
+    this.setRedaction(options);
+    this.telemetry.reset();
+    this.isPaused = false;
+    await new Promise(resolve => setTimeout(resolve, MOCK_CONNECT_DELAY_MS));
+    this.isConnected = true;
+    this.emit('state', ConnectionState.CONNECTED);
+  }
+
+  // The audio itself is ignored; streaming starts the scripted replay
+  streamAudio(_sources: AudioSources) {
+    if (!this.isConnected) return;
+    this.playScript(1);
+  }
+
+  // Plays the script at the replay speed and reports progress through the recording's length
+  async replayRecording(samples: Int16Array, options: ReplayOptions) {
+    if (!this.isConnected) throw new Error('Connect before replaying a recording.');
+    const totalMs = (samples.length / TARGET_SAMPLE_RATE) * 1000;
+    const scriptEndMs = this.playScript(options.speed);
+
+    const endAt = Math.max(scriptEndMs, totalMs / options.speed);
+    for (let elapsed = 0; elapsed < endAt; elapsed += MOCK_PROGRESS_INTERVAL_MS) {
+      if (!this.isConnected) return;
+      this.emit('replayProgress', { sentMs: Math.min(totalMs, elapsed * options.speed), totalMs });
+      await new Promise(resolve => setTimeout(resolve, MOCK_PROGRESS_INTERVAL_MS));
+    }
+    this.emit('replayProgress', { sentMs: totalMs, totalMs });
+  }
+
+  requestSuggestion(_prompt: string) {
+    if (!this.isConnected || this.script.suggestions.length === 0) return;
+    const text = this.script.suggestions[this.suggestionIndex % this.script.suggestions.length];
+    this.suggestionIndex++;
+    this.telemetry.suggestionRequested();
+    this.scheduleUtterance(TranscriptSource.ASSISTANT, text, MOCK_WORD_INTERVAL_MS);
+  }
+
+  // Scripted lines spoken while paused are skipped, as if the audio had been dropped
+  pause() {
+    this.isPaused = true;
+    this.assembler.complete(TranscriptSource.ME);
+    this.assembler.complete(TranscriptSource.REMOTE);
+  }
+
+  resume() {
+    this.isPaused = false;
+  }
+
+  async disconnect() {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers = [];
+    this.assembler.completeAll();
+    this.isConnected = false;
+    this.telemetry.flush();
+    this.emit('state', ConnectionState.DISCONNECTED);
+  }
+
+  // Schedules every scripted line; returns when the last one ends
+  private playScript(speed: number): number {
+    let at = 0;
+    this.script.lines.forEach(line => {
+      at += line.delayMs / speed;
+      if (line.speaker) this.schedule(() => (this.remoteSpeaker = line.speaker), at);
+      at = this.scheduleUtterance(line.source, line.text, at, speed);
+    });
+    return at;
+  }
+
+  // Streams the text word by word starting at `startMs`; returns when the utterance ends
+  private scheduleUtterance(source: TranscriptSource, text: string, startMs: number, speed: number = 1): number {
+    let at = startMs;
+    text.split(' ').forEach((word, index) => {
+      this.schedule(() => {
+        if (this.isPaused && source !== TranscriptSource.ASSISTANT) return;
+        this.telemetry.messageReceived();
+        this.assembler.addFragment(source, index === 0 ? word : ` ${word}`);
+        if (source === TranscriptSource.ASSISTANT) this.telemetry.suggestionOutput();
+      }, at);
+      at += MOCK_WORD_INTERVAL_MS / speed;
+    });
+    this.schedule(() => {
+      this.assembler.complete(source);
+      if (source === TranscriptSource.ASSISTANT) this.telemetry.suggestionCompleted();
+    }, at);
+    return at;
+  }
+
+  private schedule(run: () => void, delayMs: number) {
+    this.timers.push(setTimeout(run, delayMs));
+  }
+}
+
+export class MockSummaryProvider implements SummaryProvider {
+  async generate(_prompt: string): Promise<string> {
+    return JSON.stringify({
+      overview: 'The team reviewed the Q3 roadmap. The billing migration is two weeks behind because of the legacy data export.',
+      decisions: ['Keep the Q3 scope unchanged'],
+      actionItems: [{ task: 'Follow up with the vendor about the data export', owner: 'Me', dueDate: 'Friday' }],
+      openQuestions: ['Can the export be split into smaller batches?'],
+    });
+  }
+}
+
+// Marks the text instead of translating it, so it is obvious in the UI which lines went through
+export class MockTranslationProvider implements TranslationProvider {
+  async translate(text: string, targetLanguage: string): Promise<string> {
+    await new Promise(resolve => setTimeout(resolve, MOCK_TRANSLATION_DELAY_MS));
+    return `[${targetLanguage}] ${text}`;
+  }
+}
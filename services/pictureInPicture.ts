@@ -0,0 +1,49 @@
+// Document Picture-in-Picture is Chromium-only and not in the TypeScript DOM typings yet
+interface DocumentPictureInPicture {
+  requestWindow(options?: { width?: number; height?: number; disallowReturnToOpener?: boolean }): Promise<Window>;
+  readonly window: Window | null;
+}
+
+declare global {
+  interface Window {
+    documentPictureInPicture?: DocumentPictureInPicture;
+  }
+}
+
+export const OVERLAY_SIZE = { width: 380, height: 520 };
+
+// The Tailwind Play CDN generates CSS for the document it runs in, so the overlay needs its own copy
+const STYLE_SCRIPT_SOURCES = ['cdn.tailwindcss.com'];
+
+export function isPictureInPictureSupported(): boolean {
+  return typeof window !== 'undefined' && !!window.documentPictureInPicture;
+}
+
+// Copies the page's stylesheets into the overlay document
+function copyStyles(source: Document, target: Document) {
+  source.querySelectorAll('style, link[rel="stylesheet"]').forEach(node => {
+    target.head.appendChild(node.cloneNode(true));
+  });
+  source.querySelectorAll<HTMLScriptElement>('script[src]').forEach(script => {
+    if (!STYLE_SCRIPT_SOURCES.some(src => script.src.includes(src))) return;
+    const copy = target.createElement('script');
+    copy.src = script.src;
+    target.head.appendChild(copy);
+  });
+}
+
+/**
+ * Opens an always-on-top window styled like the page. Must be called from a user gesture.
+ * Returns null where Document Picture-in-Picture is not available.
+ */
+export async function openOverlayWindow(size = OVERLAY_SIZE): Promise<Window | null> {
+  const api = window.documentPictureInPicture;
+  if (!api) return null;
+  // Only one overlay per page; reuse it if it is still open
+  if (api.window) return api.window;
+
+  const overlay = await api.requestWindow(size);
+  overlay.document.title = document.title;
+  copyStyles(document, overlay.document);
+  return overlay;
+}
@@ -0,0 +1,27 @@
+import { TranscriptionItem, TranscriptSource } from '../types';
+
+const PROMPT_SPEAKERS: Record<TranscriptSource, string> = {
+  [TranscriptSource.ME]: 'Me',
+  [TranscriptSource.REMOTE]: 'Others',
+  [TranscriptSource.ASSISTANT]: 'Assistant',
+};
+
+// Renders what was said in the meeting (model suggestions excluded) as "Speaker: text" lines.
+// Remote lines name their speaker when known, e.g. "Others (Dana): ...".
+export function formatTranscriptForPrompt(items: TranscriptionItem[]): string {
+  return items
+    .filter(item => item.source !== TranscriptSource.ASSISTANT && item.text.trim())
+    .map(item => {
+      const speaker = item.source === TranscriptSource.REMOTE && item.speaker
+        ? `${PROMPT_SPEAKERS[item.source]} (${item.speaker})`
+        : PROMPT_SPEAKERS[item.source];
+      return `${speaker}: ${item.text.trim()}`;
+    })
+    .join('\n');
+}
+
+// The lines the user pinned, as a prompt section; empty when nothing is pinned
+export function formatPinnedForPrompt(items: TranscriptionItem[]): string {
+  const lines = formatTranscriptForPrompt(items.filter(item => item.pinned));
+  return lines ? `Lines the user pinned as important:\n${lines}` : '';
+}
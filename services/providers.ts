@@ -0,0 +1,26 @@
+import { MeetingAssistantProvider } from './assistantProvider';
+import { GeminiLiveService } from './geminiLive';
+import { GeminiSummaryProvider, SummaryProvider } from './meetingSummary';
+import { MockAssistantProvider, MockSummaryProvider, MockTranslationProvider } from './mockProvider';
+import { GeminiTranslationProvider, TranslationProvider } from './translation';
+
+export type ProviderKind = 'gemini' | 'mock';
+
+// `?provider=mock` in the URL overrides the ASSISTANT_PROVIDER build setting
+export function getProviderKind(): ProviderKind {
+  const fromUrl = new URLSearchParams(window.location.search).get('provider');
+  const kind = fromUrl || process.env.ASSISTANT_PROVIDER;
+  return kind === 'mock' ? 'mock' : 'gemini';
+}
+
+export function createAssistantProvider(kind: ProviderKind = getProviderKind()): MeetingAssistantProvider {
+  return kind === 'mock' ? new MockAssistantProvider() : new GeminiLiveService();
+}
+
+export function createSummaryProvider(kind: ProviderKind = getProviderKind()): SummaryProvider {
+  return kind === 'mock' ? new MockSummaryProvider() : new GeminiSummaryProvider();
+}
+
+export function createTranslationProvider(kind: ProviderKind = getProviderKind()): TranslationProvider {
+  return kind === 'mock' ? new MockTranslationProvider() : new GeminiTranslationProvider();
+}
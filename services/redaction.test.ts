@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_REDACTION_SETTINGS,
+  passesLuhn,
+  RedactionSettings,
+  redactText,
+  validatePattern,
+} from './redaction';
+
+const settings = (patch: Partial<RedactionSettings> = {}): RedactionSettings => ({
+  ...DEFAULT_REDACTION_SETTINGS,
+  enabled: true,
+  ...patch,
+});
+
+const redact = (text: string, patch?: Partial<RedactionSettings>) => redactText(text, settings(patch));
+
+describe('redactText', () => {
+  it('leaves text alone while disabled', () => {
+    expect(redactText('mail jane@example.com', DEFAULT_REDACTION_SETTINGS)).toBe('mail jane@example.com');
+  });
+
+  it('masks email addresses', () => {
+    expect(redact('Send it to jane.doe+notes@example.co.uk today')).toBe('Send it to [EMAIL] today');
+  });
+
+  it.each([
+    ['+1 (555) 123-4567'],
+    ['+44 20 7946 0958'],
+    ['+4915112345678'],
+    ['0044 20 7946 0958'],
+    ['(030) 1234 5678'],
+    ['(555) 123-4567'],
+    ['030 12345678'],
+    ['0171-234 5678'],
+    ['555-123-4567'],
+    ['555.123.4567'],
+  ])('masks the phone number %s', phone => {
+    expect(redact(`Call me on ${phone}.`)).toBe('Call me on [PHONE].');
+  });
+
+  it.each([
+    ['due 2024-01-15'],
+    ['from 10.30 - 11.45'],
+    ['in 2019 2020 2021'],
+    ['order 12345678'],
+    ['on 15.01.2024 at 09:30'],
+    ['call 555-123 4567'],
+  ])('leaves "%s" alone', text => {
+    expect(redact(text)).toBe(text);
+  });
+
+  it('masks card numbers that pass the Luhn check', () => {
+    expect(redact('Card 4111 1111 1111 1111 on file')).toBe('Card [CARD] on file');
+    expect(redact('Card 4111-1111-1111-1111')).toBe('Card [CARD]');
+    expect(redact('Ref 4111 1111 1111 1112')).toBe('Ref 4111 1111 1111 1112');
+  });
+
+  it('masks custom terms as whole words, ignoring case', () => {
+    const terms = ['Project Falcon', 'C++'];
+    expect(redact('The project falcon budget', { terms })).toBe('The [REDACTED] budget');
+    expect(redact('Falconry and Project Falcons', { terms })).toBe('Falconry and Project Falcons');
+    expect(redact('Written in C++ mostly', { terms })).toBe('Written in [REDACTED] mostly');
+  });
+
+  it('finds the word boundaries of terms in any script', () => {
+    expect(redact('Zoë said ZOË twice', { terms: ['Zoë'] })).toBe('[REDACTED] said [REDACTED] twice');
+    expect(redact('Zoëlla and Café', { terms: ['Zoë', 'Caf'] })).toBe('Zoëlla and Café');
+  });
+
+  it('masks custom patterns and skips invalid ones', () => {
+    const patterns = ['ACME-\\d+', '(unclosed'];
+    expect(redact('See acme-4521 and ACME-7', { patterns })).toBe('See [REDACTED] and [REDACTED]');
+  });
+
+  it('applies the mask style', () => {
+    expect(redact('Call 555-123-4567', { style: 'partial' })).toBe('Call ••••4567');
+    expect(redact('Mail a@b.io', { style: 'block' })).toBe('Mail ██████');
+  });
+
+  it('only runs the enabled detectors', () => {
+    const detectors = { email: true, phone: false, card: true };
+    expect(redact('a@b.io or 555-123-4567', { detectors })).toBe('[EMAIL] or 555-123-4567');
+  });
+});
+
+describe('passesLuhn', () => {
+  it('checks the checksum digit', () => {
+    expect(passesLuhn('4111111111111111')).toBe(true);
+    expect(passesLuhn('4111111111111112')).toBe(false);
+    expect(passesLuhn('')).toBe(false);
+  });
+});
+
+describe('validatePattern', () => {
+  it('returns null for valid patterns and a message otherwise', () => {
+    expect(validatePattern('\\d{4}')).toBeNull();
+    expect(validatePattern('(')).toEqual(expect.any(String));
+  });
+});
@@ -0,0 +1,218 @@
+import { MeetingSession, SuggestionRecord, TranscriptionItem } from '../types';
+import { loadSetting, saveSetting } from './localSettings';
+import { errorMessage } from './errors';
+import { wholeWordRegExp } from './textMatch';
+
+export type RedactionDetector = 'email' | 'phone' | 'card';
+export type RedactionKind = RedactionDetector | 'term' | 'pattern';
+
+// label: "[EMAIL]", block: "█████" (same length), partial: keeps the last 4 characters
+export type MaskStyle = 'label' | 'block' | 'partial';
+
+export interface RedactionSettings {
+  enabled: boolean;
+  detectors: Record<RedactionDetector, boolean>;
+  terms: string[]; // Matched as whole words, ignoring case
+  patterns: string[]; // Regular expression sources, matched ignoring case
+  style: MaskStyle;
+}
+
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  enabled: false,
+  detectors: { email: true, phone: true, card: true },
+  terms: [],
+  patterns: [],
+  style: 'label',
+};
+
+export const DETECTOR_LABELS: Record<RedactionDetector, string> = {
+  email: 'Email addresses',
+  phone: 'Phone numbers',
+  card: 'Payment card numbers',
+};
+
+export const MASK_STYLE_LABELS: Record<MaskStyle, string> = {
+  label: 'Label, e.g. [EMAIL]',
+  block: 'Blocks, e.g. █████',
+  partial: 'Keep the last 4 characters, e.g. ••••1234',
+};
+
+const KIND_LABELS: Record<RedactionKind, string> = {
+  email: 'EMAIL',
+  phone: 'PHONE',
+  card: 'CARD',
+  term: 'REDACTED',
+  pattern: 'REDACTED',
+};
+
+export interface RedactionSpan {
+  start: number;
+  end: number;
+  kind: RedactionKind;
+}
+
+const EMAIL = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+// 13-19 digits, optionally grouped with spaces or dashes
+const CARD = /\b\d(?:[ -]?\d){12,18}\b/g;
+// Phone shapes only, so dates, times, years and order numbers are left alone:
+// - international: + or 00 and a country code, then grouped digits
+// - an area code in brackets, e.g. (030) 1234 5678 or (555) 123-4567
+// - an area code with a trunk 0, e.g. 030 12345678 or 0171-234 5678
+// - the North American 555-123-4567, with the same separator twice
+// Each is checked for a plausible digit count below.
+const PHONE = new RegExp(
+  String.raw`(?<![\w./-])(?:` +
+    [
+      String.raw`(?:\+|00)\d{1,3}(?:[ .-]?\(?\d{1,4}\)?){2,5}`,
+      String.raw`\(\d{2,5}\) ?\d{3,4}[ .-]?\d{3,4}`,
+      String.raw`0\d{1,4}[ /.-]\d{3,4}(?:[ .-]?\d{2,4}){0,2}`,
+      String.raw`\d{3}([ .-])\d{3}\1\d{4}`,
+    ].join('|') +
+    String.raw`)(?!\w|[./-]\d)`,
+  'g'
+);
+const MIN_PHONE_DIGITS = 8;
+const MAX_PHONE_DIGITS = 15;
+
+// Luhn checksum, so order numbers and other long digit runs are not mistaken for cards
+export function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return digits.length > 0 && sum % 10 === 0;
+}
+
+// The error message for an invalid pattern, or null if it compiles
+export function validatePattern(source: string): string | null {
+  try {
+    new RegExp(source, 'gi');
+    return null;
+  } catch (err) {
+    return errorMessage(err, 'Invalid regular expression');
+  }
+}
+
+function collect(text: string, regex: RegExp, kind: RedactionKind, accept: (match: string) => boolean = () => true): RedactionSpan[] {
+  const spans: RedactionSpan[] = [];
+  for (const match of text.matchAll(regex)) {
+    // Zero-length matches (e.g. from a user pattern like "a*") would redact nothing
+    if (match[0].length > 0 && accept(match[0])) {
+      spans.push({ start: match.index!, end: match.index! + match[0].length, kind });
+    }
+  }
+  return spans;
+}
+
+// Everything to redact in `text`, sorted and without overlaps (the earlier, then longer, span wins)
+export function findRedactions(text: string, settings: RedactionSettings): RedactionSpan[] {
+  const { detectors } = settings;
+  const digitsOf = (value: string) => value.replace(/\D/g, '');
+  const spans: RedactionSpan[] = [
+    ...(detectors.email ? collect(text, EMAIL, 'email') : []),
+    ...(detectors.card ? collect(text, CARD, 'card', match => passesLuhn(digitsOf(match))) : []),
+    ...(detectors.phone
+      ? collect(text, PHONE, 'phone', match => {
+          const count = digitsOf(match).length;
+          return count >= MIN_PHONE_DIGITS && count <= MAX_PHONE_DIGITS;
+        })
+      : []),
+  ];
+
+  settings.terms
+    .map(term => term.trim())
+    .filter(Boolean)
+    .forEach(term => spans.push(...collect(text, wholeWordRegExp(term, 'gi'), 'term')));
+
+  settings.patterns
+    .filter(source => source.trim() && validatePattern(source) === null)
+    .forEach(source => spans.push(...collect(text, new RegExp(source, 'gi'), 'pattern')));
+
+  spans.sort((a, b) => a.start - b.start || b.end - a.end);
+  const merged: RedactionSpan[] = [];
+  spans.forEach(span => {
+    const last = merged[merged.length - 1];
+    if (last && span.start < last.end) {
+      last.end = Math.max(last.end, span.end);
+    } else {
+      merged.push({ ...span });
+    }
+  });
+  return merged;
+}
+
+export function maskValue(value: string, kind: RedactionKind, style: MaskStyle): string {
+  switch (style) {
+    case 'label':
+      return `[${KIND_LABELS[kind]}]`;
+    case 'block':
+      return '█'.repeat(value.length);
+    case 'partial':
+      return value.length > 4 ? `${'•'.repeat(4)}${value.slice(-4)}` : '•'.repeat(value.length);
+  }
+}
+
+export function redactText(text: string, settings: RedactionSettings): string {
+  if (!settings.enabled || !text) return text;
+  let result = '';
+  let at = 0;
+  findRedactions(text, settings).forEach(span => {
+    result += text.slice(at, span.start) + maskValue(text.slice(span.start, span.end), span.kind, settings.style);
+    at = span.end;
+  });
+  return result + text.slice(at);
+}
+
+export function redactItem(item: TranscriptionItem, settings: RedactionSettings): TranscriptionItem {
+  if (!settings.enabled) return item;
+  return {
+    ...item,
+    text: redactText(item.text, settings),
+    ...(item.translation !== undefined ? { translation: redactText(item.translation, settings) } : {}),
+  };
+}
+
+export function redactTranscript(items: TranscriptionItem[], settings: RedactionSettings): TranscriptionItem[] {
+  return settings.enabled ? items.map(item => redactItem(item, settings)) : items;
+}
+
+function redactSuggestion(suggestion: SuggestionRecord, settings: RedactionSettings): SuggestionRecord {
+  return {
+    ...suggestion,
+    text: redactText(suggestion.text, settings),
+    prompt: redactText(suggestion.prompt, settings),
+    ...(suggestion.backTranslation !== undefined
+      ? { backTranslation: redactText(suggestion.backTranslation, settings) }
+      : {}),
+  };
+}
+
+// The session as it may be stored or exported: every transcript line and suggestion redacted
+export function redactSession(session: MeetingSession, settings: RedactionSettings): MeetingSession {
+  if (!settings.enabled) return session;
+  return {
+    ...session,
+    transcript: redactTranscript(session.transcript, settings),
+    suggestions: session.suggestions.map(suggestion => redactSuggestion(suggestion, settings)),
+  };
+}
+
+const REDACTION_SETTINGS_KEY = 'redactionSettings';
+
+export function loadRedactionSettings(): RedactionSettings {
+  const stored = loadSetting<Partial<RedactionSettings>>(REDACTION_SETTINGS_KEY, {});
+  return {
+    ...DEFAULT_REDACTION_SETTINGS,
+    ...stored,
+    detectors: { ...DEFAULT_REDACTION_SETTINGS.detectors, ...stored.detectors },
+  };
+}
+
+export function saveRedactionSettings(settings: RedactionSettings) {
+  saveSetting(REDACTION_SETTINGS_KEY, settings);
+}
@@ -0,0 +1,271 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { LiveSendRealtimeInputParameters, LiveServerMessage } from '@google/genai';
+import {
+  backoffDelay,
+  DEFAULT_RECONNECT_POLICY,
+  LiveSessionHandle,
+  ReconnectPolicy,
+  ResilientSession,
+  ResilientSessionState,
+  Scheduler,
+  SessionCallbacks,
+} from './resilientSession';
+
+// Timers only run when the test says so
+class FakeScheduler implements Scheduler {
+  private timers = new Map<number, { run: () => void; delayMs: number }>();
+  private nextId = 1;
+
+  setTimeout = (run: () => void, delayMs: number) => {
+    const id = this.nextId++;
+    this.timers.set(id, { run, delayMs });
+    return id;
+  };
+
+  clearTimeout = (handle: unknown) => {
+    this.timers.delete(handle as number);
+  };
+
+  get delays(): number[] {
+    return Array.from(this.timers.values()).map(timer => timer.delayMs);
+  }
+
+  // Runs the oldest pending timer and lets the promises it starts settle
+  async runNext() {
+    const [id, timer] = this.timers.entries().next().value!;
+    this.timers.delete(id);
+    timer.run();
+    await settle();
+  }
+}
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const fakeSession = () => ({
+  sendRealtimeInput: vi.fn(),
+  sendClientContent: vi.fn(),
+  close: vi.fn(),
+});
+
+type FakeSession = ReturnType<typeof fakeSession>;
+type Outcome = 'open' | 'fail' | 'hang';
+
+const audio = (data: string): LiveSendRealtimeInputParameters => ({ audio: { data, mimeType: 'audio/pcm;rate=16000' } });
+const message = (fields: object) => fields as LiveServerMessage;
+
+function setup(policy: Partial<ReconnectPolicy> = {}) {
+  const scheduler = new FakeScheduler();
+  const states: ResilientSessionState[] = [];
+  const messages: LiveServerMessage[] = [];
+  const errors: unknown[] = [];
+  // What each connect call does, in order; calls beyond the list open a session
+  const outcomes: Outcome[] = [];
+  const connections: { callbacks: SessionCallbacks; resumeHandle?: string; session: FakeSession }[] = [];
+  const hanging: ((session: LiveSessionHandle) => void)[] = [];
+
+  const connect = vi.fn((callbacks: SessionCallbacks, resumeHandle?: string): Promise<LiveSessionHandle> => {
+    const outcome = outcomes.shift() ?? 'open';
+    if (outcome === 'fail') return Promise.reject(new Error('Connection refused'));
+    if (outcome === 'hang') return new Promise(resolve => hanging.push(resolve));
+    const session = fakeSession();
+    connections.push({ callbacks, resumeHandle, session });
+    return Promise.resolve(session);
+  });
+
+  const session = new ResilientSession({
+    connect,
+    onMessage: received => messages.push(received),
+    onStateChange: state => states.push(state),
+    onError: error => errors.push(error),
+    getReplayContext: () => 'Earlier in the meeting: hello',
+    policy: { jitter: 0.5, ...policy },
+    scheduler,
+    random: () => 0.5,
+  });
+
+  const latest = () => connections[connections.length - 1];
+  return { session, scheduler, states, messages, errors, outcomes, connections, hanging, connect, latest };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('backoffDelay', () => {
+  const policy = { ...DEFAULT_RECONNECT_POLICY, baseDelayMs: 500, maxDelayMs: 15000, jitter: 0.2 };
+
+  it('doubles per attempt up to the cap', () => {
+    expect([0, 1, 2, 3, 10].map(attempt => backoffDelay(attempt, policy, () => 0))).toEqual([500, 1000, 2000, 4000, 15000]);
+  });
+
+  it('takes up to the jitter fraction off the delay', () => {
+    expect(backoffDelay(2, policy, () => 1)).toBe(1600);
+    expect(backoffDelay(2, policy, () => 0.5)).toBe(1800);
+  });
+});
+
+describe('ResilientSession', () => {
+  it('opens a session and forwards messages', async () => {
+    const { session, states, messages, latest } = setup();
+    await session.open();
+    expect(session.getState()).toBe('open');
+    expect(states).toEqual(['connecting', 'open']);
+
+    latest().callbacks.onmessage(message({ serverContent: { turnComplete: true } }));
+    expect(messages).toHaveLength(1);
+  });
+
+  it('retries with backoff and gives up after maxAttempts', async () => {
+    const { session, scheduler, states, errors, outcomes, connect, latest } = setup({ maxAttempts: 3, baseDelayMs: 400 });
+    await session.open();
+    outcomes.push('fail', 'fail', 'fail');
+
+    latest().callbacks.onclose();
+    expect(session.getState()).toBe('reconnecting');
+    expect(scheduler.delays).toEqual([300]); // 400 minus half the jitter
+
+    await scheduler.runNext();
+    expect(scheduler.delays).toEqual([600]);
+    await scheduler.runNext();
+    expect(scheduler.delays).toEqual([1200]);
+    await scheduler.runNext();
+
+    expect(scheduler.delays).toEqual([]);
+    expect(connect).toHaveBeenCalledTimes(4);
+    expect(errors).toHaveLength(3);
+    expect(states).toEqual(['connecting', 'open', 'reconnecting', 'failed']);
+  });
+
+  it('resets the backoff once a reconnect succeeds', async () => {
+    const { session, scheduler, outcomes, latest } = setup({ baseDelayMs: 400 });
+    await session.open();
+    outcomes.push('fail');
+    latest().callbacks.onclose();
+    await scheduler.runNext();
+    await scheduler.runNext();
+    expect(session.getState()).toBe('open');
+
+    latest().callbacks.onclose();
+    expect(scheduler.delays).toEqual([300]);
+  });
+
+  it('buffers audio and content while reconnecting and flushes them in order', async () => {
+    const { session, scheduler, connections, latest } = setup({ maxBufferedChunks: 2 });
+    await session.open();
+    const first = latest().session;
+    latest().callbacks.onclose();
+
+    session.sendAudio(audio('a1'));
+    session.sendClientContent({ turns: 'What did they ask?', turnComplete: true });
+    session.sendAudio(audio('a2'));
+    session.sendAudio(audio('a3'));
+    expect(first.sendRealtimeInput).not.toHaveBeenCalled();
+
+    await scheduler.runNext();
+    expect(connections).toHaveLength(2);
+    const { sendClientContent, sendRealtimeInput } = latest().session;
+
+    // The oldest chunk was dropped to stay within maxBufferedChunks
+    expect(sendRealtimeInput.mock.calls.map(([params]) => params.audio.data)).toEqual(['a2', 'a3']);
+    expect(sendClientContent.mock.calls.map(([params]) => params.turns)).toEqual([
+      [{ role: 'user', parts: [{ text: 'Earlier in the meeting: hello' }] }],
+      'What did they ask?',
+    ]);
+    // Context first, then the queued content, then the audio
+    expect(sendClientContent.mock.invocationCallOrder[1]).toBeLessThan(sendRealtimeInput.mock.invocationCallOrder[0]);
+
+    session.sendAudio(audio('a4'));
+    expect(sendRealtimeInput).toHaveBeenLastCalledWith(audio('a4'));
+  });
+
+  it('reuses the resumption handle instead of replaying context', async () => {
+    const { session, scheduler, latest } = setup();
+    await session.open();
+    latest().callbacks.onmessage(message({ sessionResumptionUpdate: { resumable: true, newHandle: 'handle-1' } }));
+    latest().callbacks.onclose();
+
+    await scheduler.runNext();
+    expect(latest().resumeHandle).toBe('handle-1');
+    expect(latest().session.sendClientContent).not.toHaveBeenCalled();
+  });
+
+  it('falls back to a fresh session with replayed context when resuming fails', async () => {
+    const { session, scheduler, outcomes, latest } = setup();
+    await session.open();
+    latest().callbacks.onmessage(message({ sessionResumptionUpdate: { resumable: true, newHandle: 'handle-1' } }));
+    outcomes.push('fail');
+    latest().callbacks.onclose();
+
+    await scheduler.runNext();
+    await scheduler.runNext();
+    expect(latest().resumeHandle).toBeUndefined();
+    expect(latest().session.sendClientContent).toHaveBeenCalledWith({
+      turns: [{ role: 'user', parts: [{ text: 'Earlier in the meeting: hello' }] }],
+      turnComplete: false,
+    });
+  });
+
+  it('moves to a new session when the server sends goAway', async () => {
+    const { session, scheduler, messages, connections, latest } = setup();
+    await session.open();
+    const first = latest();
+
+    first.callbacks.onmessage(message({ goAway: { timeLeft: '10s' } }));
+    expect(messages).toHaveLength(1);
+    expect(first.session.close).toHaveBeenCalled();
+    expect(session.getState()).toBe('reconnecting');
+
+    // The old session closing afterwards does not schedule a second reconnect
+    first.callbacks.onclose();
+    expect(scheduler.delays).toHaveLength(1);
+
+    await scheduler.runNext();
+    expect(connections).toHaveLength(2);
+    expect(session.getState()).toBe('open');
+  });
+
+  it('fails to open when connecting times out, and closes a session that opens late', async () => {
+    const { session, scheduler, outcomes, hanging } = setup({ connectTimeoutMs: 5000 });
+    outcomes.push('hang');
+    const opening = session.open();
+    expect(scheduler.delays).toEqual([5000]);
+
+    const rejected = expect(opening).rejects.toThrow('Timed out');
+    await scheduler.runNext();
+    await rejected;
+    expect(session.getState()).toBe('failed');
+
+    const late = fakeSession();
+    hanging[0](late);
+    await settle();
+    expect(late.close).toHaveBeenCalled();
+    expect(session.getState()).toBe('failed');
+  });
+
+  it('ignores callbacks from a replaced session', async () => {
+    const { session, scheduler, messages, states, latest } = setup();
+    await session.open();
+    const stale = latest().callbacks;
+    stale.onclose();
+    await scheduler.runNext();
+
+    stale.onmessage(message({ serverContent: { turnComplete: true } }));
+    stale.onerror(new Event('error') as ErrorEvent);
+    stale.onclose();
+    expect(messages).toHaveLength(0);
+    expect(session.getState()).toBe('open');
+    expect(states).toEqual(['connecting', 'open', 'reconnecting', 'open']);
+  });
+
+  it('stops reconnecting when closed', async () => {
+    const { session, scheduler, connect, latest } = setup();
+    await session.open();
+    latest().callbacks.onclose();
+    session.sendAudio(audio('a1'));
+
+    session.close();
+    expect(session.getState()).toBe('closed');
+    expect(scheduler.delays).toEqual([]);
+    expect(connect).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,275 @@
+import {
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveServerMessage,
+  Session,
+} from '@google/genai';
+
+// The part of a Live session this wrapper uses; fake sessions only need these three methods
+export type LiveSessionHandle = Pick<Session, 'sendRealtimeInput' | 'sendClientContent' | 'close'>;
+
+export interface SessionCallbacks {
+  onmessage: (message: LiveServerMessage) => void;
+  onclose: (event?: CloseEvent) => void;
+  onerror: (event: ErrorEvent) => void;
+}
+
+// Opens a session; `resumeHandle` is the latest handle from a sessionResumptionUpdate, if any
+export type SessionConnector = (callbacks: SessionCallbacks, resumeHandle?: string) => Promise<LiveSessionHandle>;
+
+export type ResilientSessionState = 'connecting' | 'open' | 'reconnecting' | 'failed' | 'closed';
+
+export interface ReconnectPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: number; // 0..1, fraction of the delay that is randomized
+  connectTimeoutMs: number;
+  maxBufferedChunks: number; // Audio kept while disconnected; the oldest chunks are dropped first
+  maxQueuedContent: number;
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  maxAttempts: 6,
+  baseDelayMs: 500,
+  maxDelayMs: 15000,
+  jitter: 0.2,
+  connectTimeoutMs: 10000,
+  maxBufferedChunks: 120, // ~30s of 4096-sample chunks at 16kHz
+  maxQueuedContent: 50,
+};
+
+export interface Scheduler {
+  setTimeout: (run: () => void, delayMs: number) => unknown;
+  clearTimeout: (handle: unknown) => void;
+}
+
+const defaultScheduler: Scheduler = {
+  setTimeout: (run, delayMs) => setTimeout(run, delayMs),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+export interface ResilientSessionOptions {
+  connect: SessionConnector;
+  onMessage: (message: LiveServerMessage) => void;
+  onStateChange: (state: ResilientSessionState) => void;
+  // Connection errors, including failed reconnect attempts; the session recovers from these on its own
+  onError?: (error: unknown) => void;
+  // Text replayed to a fresh (non-resumed) session after a reconnect
+  getReplayContext?: () => string;
+  policy?: Partial<ReconnectPolicy>;
+  scheduler?: Scheduler;
+  random?: () => number;
+}
+
+// Exponential backoff capped at maxDelayMs, minus up to `jitter` of the delay
+export function backoffDelay(attempt: number, policy: ReconnectPolicy, random: () => number = Math.random): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(exponential * (1 - policy.jitter * random()));
+}
+
+/**
+ * Wraps a Live session and transparently replaces it when the connection drops.
+ * Audio sent while reconnecting is buffered and flushed once the new session is open.
+ */
+export class ResilientSession {
+  private options: ResilientSessionOptions;
+  private policy: ReconnectPolicy;
+  private scheduler: Scheduler;
+  private session: LiveSessionHandle | null = null;
+  private state: ResilientSessionState = 'closed';
+  private attempt = 0;
+  private resumeHandle: string | undefined;
+  private audioBuffer: LiveSendRealtimeInputParameters[] = [];
+  private contentQueue: LiveSendClientContentParameters[] = [];
+  private retryTimer: unknown = null;
+  // Incremented whenever a session is replaced, so callbacks from stale sessions are ignored
+  private generation = 0;
+
+  constructor(options: ResilientSessionOptions) {
+    this.options = options;
+    this.policy = { ...DEFAULT_RECONNECT_POLICY, ...options.policy };
+    this.scheduler = options.scheduler ?? defaultScheduler;
+  }
+
+  getState(): ResilientSessionState {
+    return this.state;
+  }
+
+  async open() {
+    this.setState('connecting');
+    try {
+      await this.establish();
+    } catch (error) {
+      this.setState('failed');
+      throw error;
+    }
+  }
+
+  sendAudio(params: LiveSendRealtimeInputParameters) {
+    if (this.state === 'open' && this.session) {
+      this.session.sendRealtimeInput(params);
+    } else if (this.state === 'reconnecting') {
+      this.audioBuffer.push(params);
+      if (this.audioBuffer.length > this.policy.maxBufferedChunks) this.audioBuffer.shift();
+    }
+  }
+
+  sendClientContent(params: LiveSendClientContentParameters) {
+    if (this.state === 'open' && this.session) {
+      this.session.sendClientContent(params);
+    } else if (this.state === 'reconnecting') {
+      this.contentQueue.push(params);
+      if (this.contentQueue.length > this.policy.maxQueuedContent) this.contentQueue.shift();
+    }
+  }
+
+  close() {
+    this.generation++;
+    if (this.retryTimer !== null) this.scheduler.clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    this.audioBuffer = [];
+    this.contentQueue = [];
+    const session = this.session;
+    this.session = null;
+    this.setState('closed');
+    session?.close();
+  }
+
+  private async establish() {
+    const generation = ++this.generation;
+    const isCurrent = () => generation === this.generation;
+
+    const session = await this.withTimeout(
+      this.options.connect(
+        {
+          onmessage: (message) => {
+            if (isCurrent()) this.handleMessage(message);
+          },
+          onclose: () => {
+            if (isCurrent()) this.handleDrop();
+          },
+          onerror: (event) => {
+            if (!isCurrent()) return;
+            console.error('Live session error:', event);
+            this.options.onError?.(event);
+            this.handleDrop();
+          },
+        },
+        this.resumeHandle
+      )
+    );
+
+    if (!isCurrent()) {
+      // Closed or superseded while connecting
+      session.close();
+      return;
+    }
+
+    const isReconnect = this.state === 'reconnecting';
+    this.session = session;
+    this.attempt = 0;
+    this.setState('open');
+    if (isReconnect) this.restoreContext();
+  }
+
+  private withTimeout(promise: Promise<LiveSessionHandle>): Promise<LiveSessionHandle> {
+    return new Promise((resolve, reject) => {
+      let timedOut = false;
+      const timer = this.scheduler.setTimeout(() => {
+        timedOut = true;
+        this.generation++; // Ignore the callbacks of a session that opens after all
+        reject(new Error('Timed out connecting to the Live session.'));
+      }, this.policy.connectTimeoutMs);
+      promise.then(
+        (session) => {
+          // Nobody is waiting for a session that opens too late, so close it rather than leak it
+          if (timedOut) {
+            session.close();
+            return;
+          }
+          this.scheduler.clearTimeout(timer);
+          resolve(session);
+        },
+        (error) => {
+          this.scheduler.clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  // After a reconnect: give a fresh session the recent conversation, then send what was held back
+  private restoreContext() {
+    if (!this.session) return;
+    const resumed = !!this.resumeHandle;
+    const replay = this.options.getReplayContext?.();
+    if (!resumed && replay) {
+      this.session.sendClientContent({
+        turns: [{ role: 'user', parts: [{ text: replay }] }],
+        turnComplete: false,
+      });
+    }
+
+    const content = this.contentQueue;
+    const audio = this.audioBuffer;
+    this.contentQueue = [];
+    this.audioBuffer = [];
+    content.forEach(params => this.session?.sendClientContent(params));
+    audio.forEach(params => this.session?.sendRealtimeInput(params));
+  }
+
+  private handleMessage(message: LiveServerMessage) {
+    const update = message.sessionResumptionUpdate;
+    if (update?.resumable && update.newHandle) {
+      this.resumeHandle = update.newHandle;
+    }
+
+    this.options.onMessage(message);
+
+    // The server is about to close the connection: move to a new session before it does
+    if (message.goAway && this.state === 'open') {
+      const session = this.session;
+      this.generation++;
+      session?.close();
+      this.handleDrop(true);
+    }
+  }
+
+  private handleDrop(force: boolean = false) {
+    // Failures during a reconnect attempt are handled by the attempt itself
+    if (this.state !== 'open' && !force) return;
+    this.session = null;
+    this.setState('reconnecting');
+    this.scheduleRetry();
+  }
+
+  private scheduleRetry() {
+    if (this.attempt >= this.policy.maxAttempts) {
+      this.setState('failed');
+      return;
+    }
+
+    const delay = backoffDelay(this.attempt, this.policy, this.options.random);
+    this.attempt++;
+    this.retryTimer = this.scheduler.setTimeout(async () => {
+      this.retryTimer = null;
+      if (this.state !== 'reconnecting') return;
+      try {
+        await this.establish();
+      } catch (error) {
+        console.error(`Reconnect attempt ${this.attempt} failed:`, error);
+        this.options.onError?.(error);
+        // A resume handle can expire; fall back to a fresh session on the next attempt
+        this.resumeHandle = undefined;
+        if (this.state === 'reconnecting') this.scheduleRetry();
+      }
+    }, delay);
+  }
+
+  private setState(state: ResilientSessionState) {
+    if (this.state === state) return;
+    this.state = state;
+    this.options.onStateChange(state);
+  }
+}
@@ -0,0 +1,136 @@
+import { KnowledgeDocument, MeetingSession } from '../types';
+import { migrateSuggestions } from './suggestionHistory';
+
+const DB_NAME = 'meeting-assistant';
+// v2: recordings store, v3: knowledge base store
+const DB_VERSION = 3;
+const SESSIONS_STORE = 'sessions';
+const RECORDINGS_STORE = 'recordings';
+const KNOWLEDGE_STORE = 'knowledge';
+
+// Meeting audio, keyed by session id. Kept out of the sessions store so listing sessions stays cheap.
+export interface StoredRecording {
+  sessionId: string;
+  audio: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          const store = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+          store.createIndex('startedAt', 'startedAt');
+        }
+        if (!db.objectStoreNames.contains(RECORDINGS_STORE)) {
+          db.createObjectStore(RECORDINGS_STORE, { keyPath: 'sessionId' });
+        }
+        if (!db.objectStoreNames.contains(KNOWLEDGE_STORE)) {
+          db.createObjectStore(KNOWLEDGE_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null; // Allow a retry on the next call
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName: string = SESSIONS_STORE
+): Promise<T> {
+  const db = await openDb();
+  const store = db.transaction(storeName, mode).objectStore(storeName);
+  return promisifyRequest(run(store));
+}
+
+// Brings records written by older versions of the app up to the current shape
+function normalizeSession(session: MeetingSession): MeetingSession {
+  return { ...session, suggestions: migrateSuggestions(session.suggestions ?? []) };
+}
+
+export function createSessionId(): string {
+  return `meeting-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function defaultSessionTitle(startedAt: number): string {
+  return `Meeting on ${new Date(startedAt).toLocaleString()}`;
+}
+
+export async function saveSession(session: MeetingSession): Promise<void> {
+  await withStore('readwrite', (store) => store.put(session));
+}
+
+export async function getSession(id: string): Promise<MeetingSession | undefined> {
+  const session = await withStore('readonly', (store) => store.get(id) as IDBRequest<MeetingSession | undefined>);
+  return session && normalizeSession(session);
+}
+
+// All sessions, most recent first
+export async function listSessions(): Promise<MeetingSession[]> {
+  const sessions = await withStore('readonly', (store) => store.getAll() as IDBRequest<MeetingSession[]>);
+  return sessions.map(normalizeSession).sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function renameSession(id: string, title: string): Promise<MeetingSession | undefined> {
+  const session = await getSession(id);
+  if (!session) return undefined;
+  const renamed = { ...session, title };
+  await saveSession(renamed);
+  return renamed;
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+  await deleteRecording(id);
+}
+
+export async function saveRecording(recording: StoredRecording): Promise<void> {
+  await withStore('readwrite', (store) => store.put(recording), RECORDINGS_STORE);
+}
+
+export async function getRecording(sessionId: string): Promise<StoredRecording | undefined> {
+  return withStore('readonly', (store) => store.get(sessionId) as IDBRequest<StoredRecording | undefined>, RECORDINGS_STORE);
+}
+
+export async function deleteRecording(sessionId: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(sessionId), RECORDINGS_STORE);
+}
+
+// Knowledge base documents, oldest first
+export async function listKnowledgeDocuments(): Promise<KnowledgeDocument[]> {
+  const documents = await withStore('readonly', (store) => store.getAll() as IDBRequest<KnowledgeDocument[]>, KNOWLEDGE_STORE);
+  return documents.sort((a, b) => a.importedAt - b.importedAt);
+}
+
+export async function saveKnowledgeDocument(document: KnowledgeDocument): Promise<void> {
+  await withStore('readwrite', (store) => store.put(document), KNOWLEDGE_STORE);
+}
+
+export async function deleteKnowledgeDocument(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id), KNOWLEDGE_STORE);
+}
+
+// Case-insensitive match against the title and everything said in the meeting
+export function sessionMatches(session: MeetingSession, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  if (session.title.toLowerCase().includes(needle)) return true;
+  return session.transcript.some((item) => item.text.toLowerCase().includes(needle));
+}
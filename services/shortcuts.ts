@@ -0,0 +1,87 @@
+import { loadSetting, saveSetting } from './localSettings';
+import { SuggestionMode } from './suggestionModes';
+
+export type AppCommandId =
+  | 'openPalette'
+  | 'copyLastSuggestion'
+  | 'dismissSuggestion'
+  | 'togglePause'
+  | 'toggleMeeting'
+  | 'toggleOverlay';
+
+// Suggestion modes are commands too, with ids of the form "mode:<mode id>"
+export type CommandId = AppCommandId | `mode:${string}`;
+
+export interface Command {
+  id: CommandId;
+  label: string;
+  group: 'Suggestions' | 'Meeting' | 'General';
+  shortcut?: string;
+}
+
+// Rebound shortcuts by command id; null means the user removed the shortcut
+export type ShortcutBindings = Partial<Record<CommandId, string | null>>;
+
+export const APP_COMMANDS: Command[] = [
+  { id: 'openPalette', label: 'Open command palette', group: 'General', shortcut: 'Ctrl+K' },
+  { id: 'copyLastSuggestion', label: 'Copy last suggestion', group: 'Suggestions', shortcut: 'Alt+C' },
+  { id: 'dismissSuggestion', label: 'Dismiss suggestion', group: 'Suggestions', shortcut: 'Alt+D' },
+  { id: 'togglePause', label: 'Pause / resume listening', group: 'Meeting', shortcut: 'Alt+P' },
+  { id: 'toggleMeeting', label: 'Start / end meeting', group: 'Meeting', shortcut: 'Alt+M' },
+  { id: 'toggleOverlay', label: 'Pop out / close floating overlay', group: 'General', shortcut: 'Alt+O' },
+];
+
+export function modeCommandId(modeId: string): CommandId {
+  return `mode:${modeId}`;
+}
+
+// Applies the user's rebindings to the modes' own shortcuts
+export function applyModeBindings(modes: SuggestionMode[], bindings: ShortcutBindings): SuggestionMode[] {
+  return modes.map(mode => {
+    const binding = bindings[modeCommandId(mode.id)];
+    return binding === undefined ? mode : { ...mode, shortcut: binding ?? undefined };
+  });
+}
+
+// Every command with its effective shortcut. Expects modes with bindings already applied.
+export function buildCommands(modes: SuggestionMode[], bindings: ShortcutBindings): Command[] {
+  const modeCommands: Command[] = modes.map(mode => ({
+    id: modeCommandId(mode.id),
+    label: mode.label,
+    group: 'Suggestions',
+    shortcut: mode.shortcut,
+  }));
+  const appCommands = APP_COMMANDS.map(command => {
+    const binding = bindings[command.id];
+    return binding === undefined ? command : { ...command, shortcut: binding ?? undefined };
+  });
+  return [...modeCommands, ...appCommands];
+}
+
+export function findCommandByShortcut(commands: Command[], shortcut: string): Command | undefined {
+  return commands.find(command => command.shortcut === shortcut);
+}
+
+// Every word of the query must appear in the label or group
+export function commandMatches(command: Command, query: string): boolean {
+  const haystack = `${command.label} ${command.group}`.toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+}
+
+// A shortcut needs a modifier, so typing in text fields never triggers commands
+export function isBindableShortcut(shortcut: string): boolean {
+  const parts = shortcut.split('+');
+  const key = parts[parts.length - 1];
+  const hasModifier = parts.slice(0, -1).some(part => part === 'Ctrl' || part === 'Alt' || part === 'Meta');
+  return hasModifier && !['Control', 'Alt', 'Shift', 'Meta'].includes(key);
+}
+
+const BINDINGS_KEY = 'shortcutBindings';
+
+export function loadShortcutBindings(): ShortcutBindings {
+  return loadSetting<ShortcutBindings>(BINDINGS_KEY, {});
+}
+
+export function saveShortcutBindings(bindings: ShortcutBindings) {
+  saveSetting(BINDINGS_KEY, bindings);
+}
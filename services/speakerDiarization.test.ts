@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptSource } from '../types';
+import { DEFAULT_DIARIZATION_CONFIG, SpeakerDiarizer, speakerName, speakersInTranscript, voiceFeatures } from './speakerDiarization';
+
+const FRAME_MS = 100;
+const FRAME_SAMPLES = (DEFAULT_DIARIZATION_CONFIG.sampleRate * FRAME_MS) / 1000;
+
+interface Voice {
+  pitch: number; // Fundamental frequency in Hz
+  formant: number; // Where the harmonics are loudest, in Hz
+}
+
+const LOW_VOICE: Voice = { pitch: 120, formant: 500 };
+const HIGH_VOICE: Voice = { pitch: 210, formant: 1800 };
+
+const distance = (a: number[], b: number[]) => Math.sqrt(a.reduce((sum, value, i) => sum + (value - b[i]) ** 2, 0));
+
+// A harmonic "voice" with a little deterministic noise, continuing where the previous frame ended
+function createSignal() {
+  let seed = 1;
+  let position = 0;
+  return ({ pitch, formant }: Voice, gain: number = 0.1): Int16Array => {
+    const frame = Int16Array.from({ length: FRAME_SAMPLES }, (_, i) => {
+      const time = (position + i) / DEFAULT_DIARIZATION_CONFIG.sampleRate;
+      let value = 0;
+      for (let frequency = pitch; frequency < 4000; frequency += pitch) {
+        value += Math.exp(-(((frequency - formant) / 300) ** 2)) * Math.sin(2 * Math.PI * frequency * time);
+      }
+      seed = (seed * 1103515245 + 12345) % 2 ** 31;
+      return Math.round((value + (seed / 2 ** 31 - 0.5) * 0.05) * gain * 0x7fff);
+    });
+    position += FRAME_SAMPLES;
+    return frame;
+  };
+}
+
+// Feeds turns of speech (or null for a pause) and returns the diarizer
+function diarize(turns: [Voice | null, number][]) {
+  const signal = createSignal();
+  const diarizer = new SpeakerDiarizer();
+  let at = 0;
+  turns.forEach(([voice, ms]) => {
+    for (let elapsed = 0; elapsed < ms; elapsed += FRAME_MS) {
+      diarizer.process(voice ? signal(voice) : new Int16Array(FRAME_SAMPLES), at);
+      at += FRAME_MS;
+    }
+  });
+  return diarizer;
+}
+
+describe('voiceFeatures', () => {
+  it('needs at least one FFT window of samples', () => {
+    expect(voiceFeatures(new Int16Array(320))).toBeNull();
+  });
+
+  it('describes the voice regardless of its volume', () => {
+    const signal = createSignal();
+    const loud = voiceFeatures(signal(LOW_VOICE, 0.15))!;
+    const quiet = voiceFeatures(signal(LOW_VOICE, 0.02))!;
+    const other = voiceFeatures(signal(HIGH_VOICE, 0.15))!;
+    expect(distance(loud, quiet)).toBeLessThan(1);
+    expect(distance(loud, other)).toBeGreaterThan(DEFAULT_DIARIZATION_CONFIG.newSpeakerDistance);
+  });
+});
+
+describe('SpeakerDiarizer', () => {
+  it('gives two different voices two labels that stay stable across turns', () => {
+    const diarizer = diarize([
+      [LOW_VOICE, 3000],
+      [null, 500],
+      [HIGH_VOICE, 1500],
+      [null, 500],
+      [LOW_VOICE, 1000],
+      [null, 500],
+      [HIGH_VOICE, 4000],
+    ]);
+    expect(diarizer.getSegments().map(segment => segment.speaker)).toEqual([
+      'Speaker 1',
+      'Speaker 1',
+      'Speaker 2',
+      'Speaker 1',
+      'Speaker 2',
+      'Speaker 2',
+    ]);
+  });
+
+  it('keeps the previous speaker for chunks too short to judge', () => {
+    const diarizer = diarize([
+      [LOW_VOICE, 2000],
+      [null, 300],
+      [HIGH_VOICE, 300],
+      [null, 300],
+    ]);
+    expect(diarizer.getSegments().map(segment => segment.speaker)).toEqual(['Speaker 1', 'Speaker 1']);
+  });
+
+  it('returns the speaker who overlaps a time range the most', () => {
+    const diarizer = diarize([
+      [LOW_VOICE, 2000],
+      [null, 500],
+      [HIGH_VOICE, 2000],
+      [null, 500],
+    ]);
+    expect(diarizer.speakerBetween(0, 1500)).toBe('Speaker 1');
+    expect(diarizer.speakerBetween(1500, 4000)).toBe('Speaker 2');
+    expect(diarizer.speakerBetween(1800, 2700)).toBe('Speaker 1');
+    // Outside every segment, the last speaker heard
+    expect(diarizer.speakerBetween(9000, 10000)).toBe('Speaker 2');
+  });
+
+  it('knows no speaker before anyone spoke', () => {
+    expect(diarize([[null, 1000]]).speakerBetween(0, 1000)).toBeNull();
+  });
+});
+
+describe('participant names', () => {
+  it('uses the given name, falling back to the label', () => {
+    expect(speakerName('Speaker 1', { 'Speaker 1': ' Dana ' })).toBe('Dana');
+    expect(speakerName('Speaker 2', { 'Speaker 2': '  ' })).toBe('Speaker 2');
+  });
+
+  it('lists remote speakers in the order they first spoke', () => {
+    const item = (speaker: string | undefined, source: TranscriptSource = TranscriptSource.REMOTE) =>
+      ({ id: speaker ?? source, timestamp: 0, text: '', source, isComplete: true, speaker });
+    expect(speakersInTranscript([item('Speaker 2'), item(undefined, TranscriptSource.ME), item('Speaker 1'), item('Speaker 2')]))
+      .toEqual(['Speaker 2', 'Speaker 1']);
+  });
+});
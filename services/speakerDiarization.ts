@@ -0,0 +1,253 @@
+import { TranscriptionItem, TranscriptSource } from '../types';
+import { TARGET_SAMPLE_RATE } from './audioPipeline';
+import { frameLevelDb } from './voiceActivity';
+
+export interface DiarizationConfig {
+  sampleRate: number;
+  minLevelDb: number; // Frames quieter than this are ignored when no speech flag is given
+  segmentMs: number; // Speech is classified in chunks of up to this length, so a new voice is noticed mid-turn
+  minSegmentMs: number; // Shorter chunks say too little about the voice and keep the previous speaker
+  newSpeakerDistance: number; // Voice profiles further apart than this belong to different people
+  maxSpeakers: number; // Past this, chunks go to the closest known speaker
+  historyMs: number; // How long classified segments are kept for lookups
+}
+
+export const DEFAULT_DIARIZATION_CONFIG: DiarizationConfig = {
+  sampleRate: TARGET_SAMPLE_RATE,
+  minLevelDb: -50,
+  segmentMs: 2000,
+  minSegmentMs: 600,
+  newSpeakerDistance: 3,
+  maxSpeakers: 8,
+  historyMs: 10 * 60 * 1000,
+};
+
+export interface SpeakerSegment {
+  start: number;
+  end: number;
+  speaker: string;
+}
+
+interface SpeakerProfile {
+  label: string;
+  centroid: number[];
+  weight: number; // Milliseconds of speech averaged into the centroid
+}
+
+const FFT_SIZE = 512;
+const BAND_COUNT = 20;
+const COEFFICIENT_COUNT = 12;
+const MIN_FREQUENCY = 100;
+const MAX_FREQUENCY = 4000;
+
+export function speakerLabel(index: number): string {
+  return `Speaker ${index}`;
+}
+
+// In-place iterative radix-2 FFT; `re` and `im` must have a power-of-two length
+function fft(re: Float64Array, im: Float64Array) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * cos - im[b] * sin;
+        const tIm = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+      }
+    }
+  }
+}
+
+const toMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const fromMel = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+
+// FFT bin edges of the mel-spaced bands
+function bandEdges(sampleRate: number): number[] {
+  const low = toMel(MIN_FREQUENCY);
+  const high = toMel(MAX_FREQUENCY);
+  return Array.from({ length: BAND_COUNT + 1 }, (_, i) => {
+    const hz = fromMel(low + ((high - low) * i) / BAND_COUNT);
+    return Math.round((hz / sampleRate) * FFT_SIZE);
+  });
+}
+
+/**
+ * Cepstral coefficients (MFCC-like, without the loudness term) averaged over a frame:
+ * a rough description of the voice's timbre that does not depend on volume.
+ */
+export function voiceFeatures(frame: Int16Array, sampleRate: number = TARGET_SAMPLE_RATE): number[] | null {
+  if (frame.length < FFT_SIZE) return null;
+  const edges = bandEdges(sampleRate);
+  const bands = new Array<number>(BAND_COUNT).fill(0);
+  const re = new Float64Array(FFT_SIZE);
+  const im = new Float64Array(FFT_SIZE);
+
+  for (let offset = 0; offset + FFT_SIZE <= frame.length; offset += FFT_SIZE) {
+    for (let i = 0; i < FFT_SIZE; i++) {
+      const hann = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FFT_SIZE - 1));
+      re[i] = (frame[offset + i] / 32768) * hann;
+      im[i] = 0;
+    }
+    fft(re, im);
+    for (let band = 0; band < BAND_COUNT; band++) {
+      for (let bin = edges[band]; bin < Math.max(edges[band + 1], edges[band] + 1); bin++) {
+        bands[band] += re[bin] * re[bin] + im[bin] * im[bin];
+      }
+    }
+  }
+
+  const logBands = bands.map(energy => Math.log(energy + 1e-10));
+  // DCT-II; coefficient 0 (overall loudness) is skipped
+  return Array.from({ length: COEFFICIENT_COUNT }, (_, k) =>
+    logBands.reduce((sum, value, band) => sum + value * Math.cos((Math.PI * (k + 1) * (band + 0.5)) / BAND_COUNT), 0) /
+    BAND_COUNT * 2
+  );
+}
+
+function distance(a: number[], b: number[]): number {
+  return Math.sqrt(a.reduce((sum, value, i) => sum + (value - b[i]) ** 2, 0));
+}
+
+/**
+ * Online speaker segmentation for a single audio channel. Speech is cut into short
+ * chunks, each chunk's voice profile is compared with the speakers heard so far, and it is
+ * either added to the closest one or starts a new "Speaker N". Labels stay stable for the
+ * whole meeting. This is an approximation: similar voices can merge and a voice heard
+ * through very different conditions can split.
+ */
+export class SpeakerDiarizer {
+  private config: DiarizationConfig;
+  private profiles: SpeakerProfile[] = [];
+  private segments: SpeakerSegment[] = [];
+  private current: { start: number; end: number; sum: number[]; ms: number } | null = null;
+  private lastSpeaker: string | null = null;
+
+  constructor(config: DiarizationConfig = DEFAULT_DIARIZATION_CONFIG) {
+    this.config = config;
+  }
+
+  // Feeds one frame captured at time `at` (ms); `isSpeech` comes from the voice activity detector when there is one
+  process(frame: Int16Array, at: number, isSpeech?: boolean) {
+    const durationMs = (frame.length / this.config.sampleRate) * 1000;
+    const speech = isSpeech ?? frameLevelDb(frame) > this.config.minLevelDb;
+    if (!speech) {
+      this.closeSegment();
+      return;
+    }
+
+    const features = voiceFeatures(frame, this.config.sampleRate);
+    if (!features) return;
+    if (!this.current) {
+      this.current = { start: at, end: at, sum: new Array(features.length).fill(0), ms: 0 };
+    }
+    features.forEach((value, i) => (this.current!.sum[i] += value * durationMs));
+    this.current.ms += durationMs;
+    this.current.end = at + durationMs;
+
+    if (this.current.ms >= this.config.segmentMs) this.closeSegment();
+  }
+
+  // The speaker heard most between `start` and `end`, or null if nobody was
+  speakerBetween(start: number, end: number): string | null {
+    const overlap = new Map<string, number>();
+    this.segments.forEach(segment => {
+      const ms = Math.min(end, segment.end) - Math.max(start, segment.start);
+      if (ms > 0) overlap.set(segment.speaker, (overlap.get(segment.speaker) ?? 0) + ms);
+    });
+    let best: string | null = null;
+    let bestMs = 0;
+    for (const [speaker, ms] of overlap) {
+      if (ms > bestMs) {
+        best = speaker;
+        bestMs = ms;
+      }
+    }
+    return best ?? this.lastSpeaker;
+  }
+
+  getSegments(): SpeakerSegment[] {
+    return [...this.segments];
+  }
+
+  private closeSegment() {
+    const segment = this.current;
+    this.current = null;
+    if (!segment || segment.ms === 0) return;
+
+    const features = segment.sum.map(value => value / segment.ms);
+    const speaker = segment.ms < this.config.minSegmentMs && this.lastSpeaker
+      ? this.lastSpeaker
+      : this.assign(features, segment.ms);
+    this.lastSpeaker = speaker;
+    this.segments.push({ start: segment.start, end: segment.end, speaker });
+
+    const cutoff = segment.end - this.config.historyMs;
+    while (this.segments.length > 0 && this.segments[0].end < cutoff) this.segments.shift();
+  }
+
+  private assign(features: number[], ms: number): string {
+    let closest: SpeakerProfile | null = null;
+    let closestDistance = Infinity;
+    for (const profile of this.profiles) {
+      const d = distance(profile.centroid, features);
+      if (d < closestDistance) {
+        closest = profile;
+        closestDistance = d;
+      }
+    }
+
+    const isNewVoice = !closest || closestDistance > this.config.newSpeakerDistance;
+    if (isNewVoice && this.profiles.length < this.config.maxSpeakers) {
+      const profile = { label: speakerLabel(this.profiles.length + 1), centroid: features, weight: ms };
+      this.profiles.push(profile);
+      return profile.label;
+    }
+
+    const profile = closest ?? this.profiles[0];
+    const total = profile.weight + ms;
+    profile.centroid = profile.centroid.map((value, i) => (value * profile.weight + features[i] * ms) / total);
+    profile.weight = total;
+    return profile.label;
+  }
+}
+
+// --- Participant names ---
+
+// The name given to a speaker label, or the label itself
+export function speakerName(speaker: string, names: Record<string, string> = {}): string {
+  return names[speaker]?.trim() || speaker;
+}
+
+// Speaker labels in the order they first spoke
+export function speakersInTranscript(items: TranscriptionItem[]): string[] {
+  const speakers: string[] = [];
+  items.forEach(item => {
+    if (item.source === TranscriptSource.REMOTE && item.speaker && !speakers.includes(item.speaker)) {
+      speakers.push(item.speaker);
+    }
+  });
+  return speakers;
+}
+
+// Replaces speaker labels with participant names, for prompts
+export function applySpeakerNames(items: TranscriptionItem[], names: Record<string, string> = {}): TranscriptionItem[] {
+  if (Object.keys(names).length === 0) return items;
+  return items.map(item => (item.speaker ? { ...item, speaker: speakerName(item.speaker, names) } : item));
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { SuggestionRecord, TranscriptSource } from '../types';
+import {
+  ALTERNATIVES_TRIGGER_SUFFIX,
+  buildAlternativesPrompt,
+  expandAlternatives,
+  migrateSuggestions,
+  regeneratedTrigger,
+} from './suggestionHistory';
+
+describe('migrateSuggestions', () => {
+  it('keeps suggestion records as they are', () => {
+    const record: SuggestionRecord = {
+      id: 's1',
+      text: 'Ask about the budget',
+      createdAt: 10,
+      isComplete: true,
+      trigger: 'Suggest',
+      modeId: 'default',
+      prompt: 'Suggest a reply',
+      transcriptIndex: 3,
+    };
+    expect(migrateSuggestions([record])[0]).toBe(record);
+  });
+
+  it('turns legacy transcript items into records and skips other values', () => {
+    const legacy = { id: 'old', text: 'Say yes', timestamp: 20, source: TranscriptSource.ASSISTANT, isComplete: true };
+    expect(migrateSuggestions([legacy, null, 'text'])).toEqual([
+      {
+        id: 'old',
+        text: 'Say yes',
+        createdAt: 20,
+        isComplete: true,
+        trigger: 'Suggestion',
+        modeId: 'unknown',
+        prompt: '',
+        transcriptIndex: 0,
+      },
+    ]);
+  });
+});
+
+describe('expandAlternatives', () => {
+  const record: SuggestionRecord = {
+    id: 's2',
+    text: '1. Sure. 2. Let me check. 3. Not this week.',
+    createdAt: 30,
+    isComplete: true,
+    trigger: `Suggest${ALTERNATIVES_TRIGGER_SUFFIX}`,
+    modeId: 'default',
+    prompt: buildAlternativesPrompt('Suggest a reply'),
+    transcriptIndex: 4,
+    parentId: 's1',
+  };
+
+  it('splits a numbered response into one single-answer record per alternative', () => {
+    expect(expandAlternatives([record], 's2')).toEqual([
+      { ...record, id: 's2-alt-1', text: 'Sure.', trigger: 'Suggest (alternative 1 of 3)', prompt: 'Suggest a reply', groupId: 's2' },
+      { ...record, id: 's2-alt-2', text: 'Let me check.', trigger: 'Suggest (alternative 2 of 3)', prompt: 'Suggest a reply', groupId: 's2' },
+      { ...record, id: 's2-alt-3', text: 'Not this week.', trigger: 'Suggest (alternative 3 of 3)', prompt: 'Suggest a reply', groupId: 's2' },
+    ]);
+  });
+
+  it('leaves a response without numbering alone', () => {
+    const records = [{ ...record, text: 'Sure.' }];
+    expect(expandAlternatives(records, 's2')).toBe(records);
+  });
+});
+
+describe('regeneratedTrigger', () => {
+  it('marks the trigger once, whatever it was regenerated from', () => {
+    expect(regeneratedTrigger('Suggest')).toBe('Suggest (regenerated)');
+    expect(regeneratedTrigger('Suggest (regenerated)')).toBe('Suggest (regenerated)');
+    expect(regeneratedTrigger('Suggest (alternative 2 of 3)')).toBe('Suggest (regenerated)');
+  });
+});
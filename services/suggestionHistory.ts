@@ -0,0 +1,143 @@
+import { SuggestionRecord, TranscriptionItem, TranscriptSource } from '../types';
+
+export type RewriteStyle = 'shorter' | 'longer' | 'formal';
+
+export const REWRITE_STYLES: Record<RewriteStyle, { label: string; instruction: string }> = {
+  shorter: { label: 'Shorter', instruction: 'Make it shorter and more to the point, keeping the meaning.' },
+  longer: { label: 'Longer', instruction: 'Make it a bit longer, adding a supporting detail or reason.' },
+  formal: { label: 'More formal', instruction: 'Make it more formal and polished.' },
+};
+
+export const ALTERNATIVE_COUNT = 3;
+
+const ALTERNATIVES_INSTRUCTION = `
+
+Give ${ALTERNATIVE_COUNT} different alternatives. Number them "1.", "2." and "3." and say nothing else.`;
+
+// Added to the trigger of a request for alternatives, e.g. "Push back politely – alternatives"
+export const ALTERNATIVES_TRIGGER_SUFFIX = ' – alternatives';
+
+// What the UI asked for; attached to the suggestion once the response starts streaming
+export interface SuggestionRequest {
+  trigger: string;
+  modeId: string;
+  prompt: string;
+  transcriptIndex: number;
+  anchorItemId?: string;
+  parentId?: string;
+  expectsAlternatives?: boolean;
+  knowledgeDocuments?: string[];
+}
+
+export function createSuggestionRequest(
+  transcript: TranscriptionItem[],
+  fields: Omit<SuggestionRequest, 'transcriptIndex' | 'anchorItemId'>
+): SuggestionRequest {
+  const spoken = transcript.filter(item => item.source !== TranscriptSource.ASSISTANT);
+  return {
+    ...fields,
+    transcriptIndex: spoken.length,
+    anchorItemId: spoken[spoken.length - 1]?.id,
+  };
+}
+
+export function buildAlternativesPrompt(basePrompt: string): string {
+  return `${basePrompt}${ALTERNATIVES_INSTRUCTION}`;
+}
+
+const withoutSuffix = (text: string, suffix: string) => (text.endsWith(suffix) ? text.slice(0, -suffix.length) : text);
+
+// "Suggest (alternative 2 of 3) (regenerated)" becomes "Suggest (regenerated)"
+export function regeneratedTrigger(trigger: string): string {
+  return `${trigger.replace(/(?: \(alternative \d+ of \d+\)| \(regenerated\))+$/, '')} (regenerated)`;
+}
+
+export function buildRewritePrompt(style: RewriteStyle, text: string): string {
+  return `Rewrite this suggested response. ${REWRITE_STYLES[style].instruction} Reply only with the rewritten response.
+
+"${text}"`;
+}
+
+// Splits a numbered "1. ... 2. ... 3. ..." response. Returns the whole text when no numbering is found.
+export function splitAlternatives(text: string): string[] {
+  const parts = text
+    .split(/(?:^|\s)\d[.)]\s+/)
+    .map(part => part.trim())
+    .filter(Boolean);
+  return parts.length > 1 ? parts : [text.trim()];
+}
+
+// Creates or updates the record for a streamed assistant item
+export function upsertSuggestion(
+  records: SuggestionRecord[],
+  item: TranscriptionItem,
+  request: SuggestionRequest | null
+): SuggestionRecord[] {
+  const index = records.findIndex(record => record.id === item.id);
+  if (index !== -1) {
+    const next = [...records];
+    next[index] = { ...next[index], text: item.text, isComplete: item.isComplete };
+    return next;
+  }
+
+  const record: SuggestionRecord = {
+    id: item.id,
+    text: item.text,
+    createdAt: item.timestamp,
+    isComplete: item.isComplete,
+    trigger: request?.trigger ?? 'Suggestion',
+    modeId: request?.modeId ?? 'unknown',
+    prompt: request?.prompt ?? '',
+    transcriptIndex: request?.transcriptIndex ?? 0,
+    anchorItemId: request?.anchorItemId,
+    parentId: request?.parentId,
+    knowledgeDocuments: request?.knowledgeDocuments,
+  };
+  return [...records, record];
+}
+
+// Replaces a finished multi-alternative record with one record per alternative
+export function expandAlternatives(records: SuggestionRecord[], id: string): SuggestionRecord[] {
+  const index = records.findIndex(record => record.id === id);
+  if (index === -1) return records;
+
+  const source = records[index];
+  const alternatives = splitAlternatives(source.text);
+  if (alternatives.length < 2) return records;
+
+  // Each alternative is a single answer, so regenerating one asks for a single answer again
+  const prompt = withoutSuffix(source.prompt, ALTERNATIVES_INSTRUCTION);
+  const trigger = withoutSuffix(source.trigger, ALTERNATIVES_TRIGGER_SUFFIX);
+  const expanded = alternatives.map((text, i) => ({
+    ...source,
+    id: `${source.id}-alt-${i + 1}`,
+    text,
+    trigger: `${trigger} (alternative ${i + 1} of ${alternatives.length})`,
+    prompt,
+    groupId: source.id,
+  }));
+  return [...records.slice(0, index), ...expanded, ...records.slice(index + 1)];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isSuggestionRecord = (value: unknown): value is SuggestionRecord =>
+  isObject(value) && typeof value.id === 'string' && typeof value.trigger === 'string';
+
+// Sessions saved before suggestion records existed stored plain transcript items
+export function migrateSuggestions(suggestions: unknown[]): SuggestionRecord[] {
+  return suggestions.filter(isObject).map((entry, index) =>
+    isSuggestionRecord(entry)
+      ? entry
+      : {
+          id: typeof entry.id === 'string' ? entry.id : `migrated-${index}`,
+          text: typeof entry.text === 'string' ? entry.text : '',
+          createdAt: typeof entry.timestamp === 'number' ? entry.timestamp : 0,
+          isComplete: true,
+          trigger: 'Suggestion',
+          modeId: 'unknown',
+          prompt: '',
+          transcriptIndex: 0,
+        }
+  );
+}
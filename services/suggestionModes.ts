@@ -0,0 +1,159 @@
+import { TranscriptionItem, TranscriptSource } from '../types';
+import { formatPinnedForPrompt, formatTranscriptForPrompt } from './promptContext';
+import { loadSetting, saveSetting } from './localSettings';
+
+export interface SuggestionMode {
+  id: string;
+  label: string;
+  template: string; // Prompt text with {{variable}} placeholders
+  shortcut?: string; // e.g. "Alt+1"
+  builtIn?: boolean;
+}
+
+// User-level context available to every template
+export interface SuggestionSettings {
+  meetingGoal: string;
+  myRole: string;
+  lastTurnCount: number; // N in "the last N turns"
+}
+
+export const TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+  { name: 'lastTurns', description: 'The last N turns of the transcript' },
+  { name: 'lastQuestion', description: 'The most recent question asked by someone else' },
+  { name: 'goal', description: 'Your goal for this meeting' },
+  { name: 'role', description: 'Your role in the meeting' },
+  { name: 'n', description: 'The number of turns included in lastTurns' },
+  { name: 'pinned', description: 'Lines you pinned during the meeting (added at the end when not used)' },
+];
+
+export const DEFAULT_MODE_ID = 'suggest';
+
+export const BUILT_IN_MODES: SuggestionMode[] = [
+  {
+    id: DEFAULT_MODE_ID,
+    label: 'Suggest a response',
+    template: 'Based on the conversation, suggest a response now. Keep it direct (1-3 sentences).',
+    shortcut: 'Alt+1',
+  },
+  {
+    id: 'answer-question',
+    label: 'Answer the last question',
+    template: 'Suggest a direct answer to the last question that was asked: "{{lastQuestion}}". Keep it to 1-3 sentences.',
+    shortcut: 'Alt+2',
+  },
+  {
+    id: 'push-back',
+    label: 'Push back politely',
+    template: 'Suggest a polite, constructive way to push back on what was just proposed, with one concrete reason. My role: {{role}}.',
+    shortcut: 'Alt+3',
+  },
+  {
+    id: 'clarify',
+    label: 'Ask a clarifying question',
+    template: 'Suggest one short clarifying question I can ask about what was just said.',
+    shortcut: 'Alt+4',
+  },
+  {
+    id: 'summarize',
+    label: 'Summarize so far',
+    template: 'Suggest a brief spoken recap of the discussion so far that I can say to align everyone (2-4 sentences).\n\nRecent conversation:\n{{lastTurns}}',
+    shortcut: 'Alt+5',
+  },
+  {
+    id: 'fact-check',
+    label: 'Fact-check last claim',
+    template: 'Check the most recent factual claim made in the meeting. If it looks wrong or doubtful, suggest a tactful way to question it; otherwise confirm it briefly.\n\nRecent conversation:\n{{lastTurns}}',
+    shortcut: 'Alt+6',
+  },
+].map(mode => ({ ...mode, builtIn: true }));
+
+export const DEFAULT_SUGGESTION_SETTINGS: SuggestionSettings = {
+  meetingGoal: '',
+  myRole: '',
+  lastTurnCount: 8,
+};
+
+const CUSTOM_MODES_KEY = 'customSuggestionModes';
+const SUGGESTION_SETTINGS_KEY = 'suggestionSettings';
+
+export function loadCustomModes(): SuggestionMode[] {
+  return loadSetting<SuggestionMode[]>(CUSTOM_MODES_KEY, []);
+}
+
+export function saveCustomModes(modes: SuggestionMode[]) {
+  saveSetting(CUSTOM_MODES_KEY, modes.map(({ builtIn, ...mode }) => mode));
+}
+
+export function loadSuggestionSettings(): SuggestionSettings {
+  return { ...DEFAULT_SUGGESTION_SETTINGS, ...loadSetting<Partial<SuggestionSettings>>(SUGGESTION_SETTINGS_KEY, {}) };
+}
+
+export function saveSuggestionSettings(settings: SuggestionSettings) {
+  saveSetting(SUGGESTION_SETTINGS_KEY, settings);
+}
+
+export function createCustomMode(): SuggestionMode {
+  return {
+    id: `custom-${Date.now()}`,
+    label: 'New prompt',
+    template: 'Based on the last {{n}} turns, suggest ...\n\n{{lastTurns}}',
+  };
+}
+
+// Replaces {{name}} placeholders; unknown variables are left untouched
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    name in variables ? variables[name] : placeholder
+  );
+}
+
+function lastQuestion(transcript: TranscriptionItem[]): string {
+  for (let i = transcript.length - 1; i >= 0; i--) {
+    const item = transcript[i];
+    if (item.source === TranscriptSource.REMOTE && item.text.includes('?')) return item.text.trim();
+  }
+  return '(no question detected)';
+}
+
+export function buildSuggestionPrompt(
+  mode: SuggestionMode,
+  transcript: TranscriptionItem[],
+  settings: SuggestionSettings
+): string {
+  const spoken = transcript.filter(item => item.source !== TranscriptSource.ASSISTANT);
+  const turns = spoken.slice(-settings.lastTurnCount);
+
+  const pinned = formatPinnedForPrompt(spoken);
+  const prompt = renderTemplate(mode.template, {
+    lastTurns: formatTranscriptForPrompt(turns) || '(nothing has been said yet)',
+    lastQuestion: lastQuestion(spoken),
+    goal: settings.meetingGoal || '(not specified)',
+    role: settings.myRole || '(not specified)',
+    n: String(settings.lastTurnCount),
+    pinned: pinned || '(nothing pinned)',
+  });
+  // Pinned lines and who said what are always part of the context, even for templates that do not mention them
+  const uses = (name: string) => new RegExp(`\\{\\{\\s*${name}\\s*\\}\\}`).test(mode.template);
+  const sections = [prompt];
+  if (!uses('lastTurns') && turns.some(item => item.speaker)) {
+    sections.push(`Who said what recently:\n${formatTranscriptForPrompt(turns)}`);
+  }
+  if (pinned && !uses('pinned')) sections.push(pinned);
+  return sections.join('\n\n');
+}
+
+// Normalized shortcut for a key event, e.g. "Ctrl+Shift+K" or "Alt+1"
+export function shortcutFromEvent(event: KeyboardEvent): string {
+  const key = event.code.startsWith('Digit')
+    ? event.code.slice(5)
+    : event.code.startsWith('Key')
+    ? event.code.slice(3)
+    : event.key;
+  const modifiers = [
+    event.ctrlKey && 'Ctrl',
+    event.altKey && 'Alt',
+    event.shiftKey && 'Shift',
+    event.metaKey && 'Meta',
+  ].filter(Boolean);
+  return [...modifiers, key].join('+');
+}
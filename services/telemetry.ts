@@ -0,0 +1,178 @@
+import { MeetingTelemetry, SuggestionLatency, TranscriptSource } from '../types';
+import { loadSetting, saveSetting } from './localSettings';
+
+// How often the running totals are reported while they change
+export const TELEMETRY_REPORT_INTERVAL_MS = 1000;
+
+// Used to estimate input tokens when the service reports no usage (Gemini counts audio at 25 tokens/s)
+export const AUDIO_TOKENS_PER_SECOND = 25;
+
+export interface TelemetryRates {
+  inputPerMillionTokens: number;
+  outputPerMillionTokens: number;
+  currency: string;
+}
+
+// Rough list prices for the Live API; check them against your own plan
+export const DEFAULT_TELEMETRY_RATES: TelemetryRates = {
+  inputPerMillionTokens: 3,
+  outputPerMillionTokens: 12,
+  currency: 'USD',
+};
+
+export function emptyTelemetry(): MeetingTelemetry {
+  return {
+    audioMsSent: { [TranscriptSource.ME]: 0, [TranscriptSource.REMOTE]: 0 },
+    messagesReceived: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    suggestions: [],
+    reconnects: 0,
+    errors: 0,
+  };
+}
+
+export interface TokenUsage {
+  promptTokenCount?: number;
+  responseTokenCount?: number;
+}
+
+/**
+ * Accumulates a provider's telemetry for one session. Audio frames and messages arrive many
+ * times a second, so changes are reported at most once per interval rather than each time.
+ */
+export class TelemetryRecorder {
+  private stats = emptyTelemetry();
+  private pending: SuggestionLatency | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private onReport: (telemetry: MeetingTelemetry) => void;
+  private intervalMs: number;
+
+  constructor(onReport: (telemetry: MeetingTelemetry) => void, intervalMs: number = TELEMETRY_REPORT_INTERVAL_MS) {
+    this.onReport = onReport;
+    this.intervalMs = intervalMs;
+  }
+
+  reset() {
+    this.cancelReport();
+    this.stats = emptyTelemetry();
+    this.pending = null;
+  }
+
+  audioSent(source: TranscriptSource.ME | TranscriptSource.REMOTE, ms: number) {
+    this.stats.audioMsSent[source] += ms;
+    this.changed();
+  }
+
+  messageReceived(usage?: TokenUsage) {
+    this.stats.messagesReceived++;
+    this.stats.inputTokens += usage?.promptTokenCount ?? 0;
+    this.stats.outputTokens += usage?.responseTokenCount ?? 0;
+    this.changed();
+  }
+
+  suggestionRequested(at: number = Date.now()) {
+    this.pending = { requestedAt: at };
+    this.stats.suggestions.push(this.pending);
+    this.changed();
+  }
+
+  // Output for the requested suggestion arrived; the first call sets the time to first token
+  suggestionOutput(at: number = Date.now()) {
+    if (!this.pending || this.pending.firstTokenMs !== undefined) return;
+    this.pending.firstTokenMs = at - this.pending.requestedAt;
+    this.changed();
+  }
+
+  suggestionCompleted(at: number = Date.now()) {
+    if (!this.pending || this.pending.firstTokenMs === undefined) return;
+    this.pending.lastTokenMs = at - this.pending.requestedAt;
+    this.pending = null;
+    this.changed();
+  }
+
+  reconnected() {
+    this.stats.reconnects++;
+    this.changed();
+  }
+
+  error(message: string) {
+    this.stats.errors++;
+    this.stats.lastError = message;
+    this.changed();
+  }
+
+  snapshot(): MeetingTelemetry {
+    return {
+      ...this.stats,
+      audioMsSent: { ...this.stats.audioMsSent },
+      suggestions: this.stats.suggestions.map(suggestion => ({ ...suggestion })),
+    };
+  }
+
+  // Reports the current totals right away, e.g. when the session ends
+  flush() {
+    this.cancelReport();
+    this.onReport(this.snapshot());
+  }
+
+  private changed() {
+    if (this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.onReport(this.snapshot());
+    }, this.intervalMs);
+  }
+
+  private cancelReport() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+}
+
+// --- Totals ---
+
+export interface TelemetrySummary {
+  audioSeconds: number;
+  suggestionCount: number;
+  averageFirstTokenMs: number | null;
+  averageLastTokenMs: number | null;
+  slowestLastTokenMs: number | null;
+  inputTokens: number;
+  outputTokens: number;
+  inputTokensEstimated: boolean; // No usage was reported, so input tokens come from the audio length
+  estimatedCost: number;
+}
+
+const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null);
+
+export function summarizeTelemetry(telemetry: MeetingTelemetry, rates: TelemetryRates): TelemetrySummary {
+  const audioSeconds = (telemetry.audioMsSent[TranscriptSource.ME] + telemetry.audioMsSent[TranscriptSource.REMOTE]) / 1000;
+  const firstTokens = telemetry.suggestions.flatMap(s => (s.firstTokenMs !== undefined ? [s.firstTokenMs] : []));
+  const lastTokens = telemetry.suggestions.flatMap(s => (s.lastTokenMs !== undefined ? [s.lastTokenMs] : []));
+  const inputTokensEstimated = telemetry.inputTokens === 0 && audioSeconds > 0;
+  const inputTokens = inputTokensEstimated ? Math.round(audioSeconds * AUDIO_TOKENS_PER_SECOND) : telemetry.inputTokens;
+
+  return {
+    audioSeconds,
+    suggestionCount: telemetry.suggestions.length,
+    averageFirstTokenMs: average(firstTokens),
+    averageLastTokenMs: average(lastTokens),
+    slowestLastTokenMs: lastTokens.length > 0 ? Math.max(...lastTokens) : null,
+    inputTokens,
+    outputTokens: telemetry.outputTokens,
+    inputTokensEstimated,
+    estimatedCost:
+      (inputTokens * rates.inputPerMillionTokens + telemetry.outputTokens * rates.outputPerMillionTokens) / 1_000_000,
+  };
+}
+
+const RATES_KEY = 'telemetryRates';
+
+export function loadTelemetryRates(): TelemetryRates {
+  return { ...DEFAULT_TELEMETRY_RATES, ...loadSetting<Partial<TelemetryRates>>(RATES_KEY, {}) };
+}
+
+export function saveTelemetryRates(rates: TelemetryRates) {
+  saveSetting(RATES_KEY, rates);
+}
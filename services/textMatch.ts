@@ -0,0 +1,12 @@
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// A letter or digit in any script. \b only knows ASCII word characters, so it fails around
+// "Zoë", "C++" or ".NET"; these lookarounds check the characters next to the term instead.
+const WORD_CHAR = String.raw`[\p{L}\p{N}_]`;
+
+// Matches `term` only where it is not part of a longer word; the Unicode flag is always added
+export function wholeWordRegExp(term: string, flags: string = 'i'): RegExp {
+  return new RegExp(`(?<!${WORD_CHAR})${escapeRegExp(term)}(?!${WORD_CHAR})`, `${flags}u`);
+}
@@ -0,0 +1,85 @@
+import { TranscriptionItem, TranscriptSource } from '../types';
+import { MeetingClock } from './meetingClock';
+
+// Close an utterance if no fragment arrived for this long
+const DEFAULT_SILENCE_GAP_MS = 1500;
+
+interface OpenUtterance {
+  item: TranscriptionItem;
+  lastFragmentAt: number;
+  closeTimer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Merges streaming transcription fragments into utterances.
+ * Each source has at most one open utterance; fragments are appended to it and the
+ * updated item is re-emitted under the same id so the UI can update it in place.
+ */
+export class TranscriptAssembler {
+  private open = new Map<TranscriptSource, OpenUtterance>();
+  private nextId = 0;
+  private onUpdate: (item: TranscriptionItem) => void;
+  private silenceGapMs: number;
+  private clock: MeetingClock | null = null;
+
+  constructor(onUpdate: (item: TranscriptionItem) => void, silenceGapMs: number = DEFAULT_SILENCE_GAP_MS) {
+    this.onUpdate = onUpdate;
+    this.silenceGapMs = silenceGapMs;
+  }
+
+  // Items get meeting-relative offsets from this clock; set per meeting
+  setClock(clock: MeetingClock | null) {
+    this.clock = clock;
+  }
+
+  addFragment(source: TranscriptSource, text: string, now: number = Date.now()) {
+    let utterance = this.open.get(source);
+
+    // A long pause means the previous utterance is over even without an explicit turn end
+    if (utterance && now - utterance.lastFragmentAt > this.silenceGapMs) {
+      this.complete(source);
+      utterance = undefined;
+    }
+
+    const offsetMs = this.clock?.();
+    if (!utterance) {
+      utterance = {
+        item: {
+          id: `${source}-${++this.nextId}`,
+          timestamp: now,
+          offsetMs,
+          text: '',
+          source,
+          isComplete: false,
+        },
+        lastFragmentAt: now,
+        closeTimer: null,
+      };
+      this.open.set(source, utterance);
+    }
+
+    const merged = utterance.item.text ? utterance.item.text + text : text.trimStart();
+    utterance.item = { ...utterance.item, text: merged, endTimestamp: now, endOffsetMs: offsetMs };
+    utterance.lastFragmentAt = now;
+
+    if (utterance.closeTimer) clearTimeout(utterance.closeTimer);
+    utterance.closeTimer = setTimeout(() => this.complete(source), this.silenceGapMs);
+
+    this.onUpdate(utterance.item);
+  }
+
+  // Close the open utterance of a source (turn complete, silence gap or shutdown)
+  complete(source: TranscriptSource) {
+    const utterance = this.open.get(source);
+    if (!utterance) return;
+
+    if (utterance.closeTimer) clearTimeout(utterance.closeTimer);
+    this.open.delete(source);
+
+    this.onUpdate({ ...utterance.item, text: utterance.item.text.trim(), isComplete: true });
+  }
+
+  completeAll() {
+    Array.from(this.open.keys()).forEach((source) => this.complete(source));
+  }
+}
@@ -0,0 +1,61 @@
+import { TranscriptionItem } from '../types';
+
+export interface TranscriptMatch {
+  itemId: string;
+  field: 'text' | 'translation';
+  start: number;
+  end: number;
+}
+
+export interface TextSegment {
+  text: string;
+  isMatch: boolean;
+}
+
+// Start indexes of every case-insensitive, non-overlapping occurrence of the query
+function matchIndexes(text: string, query: string): number[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+  const haystack = text.toLowerCase();
+  const indexes: number[] = [];
+  for (let at = haystack.indexOf(needle); at !== -1; at = haystack.indexOf(needle, at + needle.length)) {
+    indexes.push(at);
+  }
+  return indexes;
+}
+
+// Every match in transcript order, original text before its translation
+export function findMatches(items: TranscriptionItem[], query: string): TranscriptMatch[] {
+  const length = query.trim().length;
+  return items.flatMap(item => {
+    const inText = matchIndexes(item.text, query).map(start => ({ itemId: item.id, field: 'text' as const, start, end: start + length }));
+    const inTranslation = item.translation
+      ? matchIndexes(item.translation, query).map(start => ({ itemId: item.id, field: 'translation' as const, start, end: start + length }))
+      : [];
+    return [...inText, ...inTranslation];
+  });
+}
+
+// Splits text into plain and matching runs for highlighting
+export function highlightSegments(text: string, query: string): TextSegment[] {
+  const length = query.trim().length;
+  const segments: TextSegment[] = [];
+  let at = 0;
+  matchIndexes(text, query).forEach(start => {
+    if (start > at) segments.push({ text: text.slice(at, start), isMatch: false });
+    segments.push({ text: text.slice(start, start + length), isMatch: true });
+    at = start + length;
+  });
+  if (at < text.length) segments.push({ text: text.slice(at), isMatch: false });
+  return segments;
+}
+
+// Index of the match that `step` (+1 / -1) moves to, wrapping around
+export function stepMatch(current: number, count: number, step: 1 | -1): number {
+  if (count === 0) return 0;
+  return (current + step + count) % count;
+}
+
+export function togglePinned(items: TranscriptionItem[], id: string): TranscriptionItem[] {
+  return items.map(item => (item.id === id ? { ...item, pinned: !item.pinned || undefined } : item));
+}
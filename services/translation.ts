@@ -0,0 +1,158 @@
+import { GoogleGenAI } from '@google/genai';
+import { TranscriptionItem, TranscriptSource } from '../types';
+import { loadSetting, saveSetting } from './localSettings';
+
+// Anything that can translate a piece of text. Swap in a stub to test without a model.
+export interface TranslationProvider {
+  translate(text: string, targetLanguage: string): Promise<string>;
+}
+
+export interface TranslationSettings {
+  targetLanguage: string; // Transcript lines are translated into this language; empty turns translation off
+  replyLanguage: string; // Suggestions are written in this language; empty means the meeting's language
+  backTranslate: boolean; // Also translate suggestions into targetLanguage
+}
+
+export const DEFAULT_TRANSLATION_SETTINGS: TranslationSettings = {
+  targetLanguage: '',
+  replyLanguage: '',
+  backTranslate: false,
+};
+
+export const LANGUAGES = [
+  'Arabic',
+  'Chinese (Simplified)',
+  'Dutch',
+  'English',
+  'French',
+  'German',
+  'Hindi',
+  'Indonesian',
+  'Italian',
+  'Japanese',
+  'Korean',
+  'Polish',
+  'Portuguese',
+  'Russian',
+  'Spanish',
+  'Swedish',
+  'Turkish',
+  'Ukrainian',
+  'Vietnamese',
+];
+
+export interface GeminiTranslationConfig {
+  apiKey: string;
+  model: string;
+}
+
+export const DEFAULT_GEMINI_TRANSLATION_CONFIG: GeminiTranslationConfig = {
+  apiKey: process.env.API_KEY ?? '',
+  model: process.env.GEMINI_TEXT_MODEL || 'gemini-2.5-flash',
+};
+
+export function buildTranslationPrompt(text: string, targetLanguage: string): string {
+  return `Translate the following line from a meeting transcript into ${targetLanguage}.
+Reply with the translation only, without quotes or notes. If it is already in ${targetLanguage}, repeat it unchanged.
+
+${text}`;
+}
+
+export class GeminiTranslationProvider implements TranslationProvider {
+  private ai: GoogleGenAI;
+  private model: string;
+
+  constructor(config: GeminiTranslationConfig = DEFAULT_GEMINI_TRANSLATION_CONFIG) {
+    this.ai = new GoogleGenAI({ apiKey: config.apiKey });
+    this.model = config.model;
+  }
+
+  async translate(text: string, targetLanguage: string): Promise<string> {
+    const response = await this.ai.models.generateContent({
+      model: this.model,
+      contents: buildTranslationPrompt(text, targetLanguage),
+    });
+    return (response.text ?? '').trim();
+  }
+}
+
+// Appended to suggestion prompts so the reply comes out in the language I speak
+export function buildReplyLanguageInstruction(settings: TranslationSettings): string {
+  return settings.replyLanguage ? `\n\nWrite the suggested reply in ${settings.replyLanguage}.` : '';
+}
+
+export function shouldBackTranslate(settings: TranslationSettings): boolean {
+  return settings.backTranslate && !!settings.targetLanguage && settings.replyLanguage !== settings.targetLanguage;
+}
+
+// Finished spoken lines that still need a translation
+export function untranslatedItems(transcript: TranscriptionItem[]): TranscriptionItem[] {
+  return transcript.filter(
+    item => item.source !== TranscriptSource.ASSISTANT && item.isComplete && item.text.trim() && item.translation === undefined
+  );
+}
+
+/**
+ * Translates texts one at a time, in the order they were queued, so lines appear in
+ * transcript order and the model is not flooded during fast exchanges. Each id is
+ * translated at most once; failures are reported and not retried.
+ */
+export class TranslationQueue {
+  private provider: TranslationProvider;
+  private onTranslated: (id: string, translation: string) => void;
+  private onError: (error: unknown) => void;
+  private pending: { id: string; text: string; targetLanguage: string }[] = [];
+  private seen = new Set<string>();
+  private running = false;
+  private generation = 0;
+
+  constructor(
+    provider: TranslationProvider,
+    onTranslated: (id: string, translation: string) => void,
+    onError: (error: unknown) => void = (error) => console.error('Translation failed:', error)
+  ) {
+    this.provider = provider;
+    this.onTranslated = onTranslated;
+    this.onError = onError;
+  }
+
+  enqueue(id: string, text: string, targetLanguage: string) {
+    if (this.seen.has(id)) return;
+    this.seen.add(id);
+    this.pending.push({ id, text, targetLanguage });
+    this.run();
+  }
+
+  // Drops queued work and ignores translations still in flight, e.g. when a new meeting starts
+  clear() {
+    this.generation++;
+    this.pending = [];
+    this.seen.clear();
+  }
+
+  private async run() {
+    if (this.running) return;
+    this.running = true;
+    while (this.pending.length > 0) {
+      const generation = this.generation;
+      const next = this.pending.shift()!;
+      try {
+        const translation = await this.provider.translate(next.text, next.targetLanguage);
+        if (generation === this.generation) this.onTranslated(next.id, translation);
+      } catch (error) {
+        if (generation === this.generation) this.onError(error);
+      }
+    }
+    this.running = false;
+  }
+}
+
+const TRANSLATION_SETTINGS_KEY = 'translationSettings';
+
+export function loadTranslationSettings(): TranslationSettings {
+  return { ...DEFAULT_TRANSLATION_SETTINGS, ...loadSetting<Partial<TranslationSettings>>(TRANSLATION_SETTINGS_KEY, {}) };
+}
+
+export function saveTranslationSettings(settings: TranslationSettings) {
+  saveSetting(TRANSLATION_SETTINGS_KEY, settings);
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_VAD_CONFIG, frameLevelDb, VadResult, VoiceActivityDetector } from './voiceActivity';
+
+const FRAME_MS = 20;
+const FRAME_SAMPLES = (DEFAULT_VAD_CONFIG.sampleRate * FRAME_MS) / 1000;
+
+// Deterministic white noise at an RMS level in dBFS
+let seed = 1;
+const noise = (levelDb: number): Int16Array => {
+  const amplitude = 10 ** (levelDb / 20) * Math.sqrt(3) * 0x7fff;
+  return Int16Array.from({ length: FRAME_SAMPLES }, () => {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31;
+    return Math.round((seed / 2 ** 30 - 1) * amplitude);
+  });
+};
+
+// A 440Hz tone at an RMS level in dBFS
+const tone = (levelDb: number): Int16Array => {
+  const amplitude = 10 ** (levelDb / 20) * Math.SQRT2 * 0x7fff;
+  return Int16Array.from({ length: FRAME_SAMPLES }, (_, i) =>
+    Math.round(amplitude * Math.sin((2 * Math.PI * 440 * i) / DEFAULT_VAD_CONFIG.sampleRate))
+  );
+};
+
+const silence = () => new Int16Array(FRAME_SAMPLES);
+
+const run = (vad: VoiceActivityDetector, frame: () => Int16Array, ms: number): VadResult[] =>
+  Array.from({ length: ms / FRAME_MS }, () => vad.process(frame()));
+
+describe('frameLevelDb', () => {
+  it('measures the RMS level in dBFS', () => {
+    expect(frameLevelDb(tone(-20))).toBeCloseTo(-20, 0);
+    expect(frameLevelDb(noise(-40))).toBeCloseTo(-40, 0);
+    expect(frameLevelDb(silence())).toBe(-100);
+  });
+});
+
+describe('VoiceActivityDetector', () => {
+  it('sends nothing during silence', () => {
+    const vad = new VoiceActivityDetector();
+    const results = run(vad, silence, 1000);
+    expect(results.every(result => result.frames.length === 0 && !result.isSpeech)).toBe(true);
+    expect(vad.getStats()).toEqual({ processedMs: 1000, sentMs: 0, suppressedMs: 1000 });
+  });
+
+  it('detects a tone burst and sends the pre-roll with its first frame', () => {
+    const vad = new VoiceActivityDetector();
+    const quiet = run(vad, () => noise(-70), 1000);
+    expect(quiet.some(result => result.isSpeech)).toBe(false);
+
+    const onset = tone(-20);
+    const first = vad.process(onset);
+    expect(first.isSpeech).toBe(true);
+    // 300ms of pre-roll, then the frame itself
+    expect(first.frames).toHaveLength(DEFAULT_VAD_CONFIG.preRollMs / FRAME_MS + 1);
+    expect(first.frames[first.frames.length - 1]).toBe(onset);
+    expect(vad.getStats()).toMatchObject({ sentMs: 320, suppressedMs: 700 });
+  });
+
+  it('keeps sending through the hangover, then ends the utterance', () => {
+    const vad = new VoiceActivityDetector();
+    run(vad, () => noise(-70), 1000);
+    run(vad, () => tone(-20), 300);
+
+    const after = run(vad, () => noise(-70), 1000);
+    const endedAt = after.findIndex(result => result.speechEnded);
+    expect(endedAt).toBe(DEFAULT_VAD_CONFIG.hangoverMs / FRAME_MS - 1);
+    expect(after.slice(0, endedAt + 1).every(result => result.frames.length === 1)).toBe(true);
+    expect(after.slice(endedAt + 1).every(result => result.frames.length === 0 && !result.isSpeech)).toBe(true);
+  });
+
+  it('keeps detecting long speech, which barely lifts the noise floor', () => {
+    const vad = new VoiceActivityDetector();
+    run(vad, () => noise(-70), 1000);
+    expect(run(vad, () => tone(-25), 3000).every(result => result.isSpeech)).toBe(true);
+  });
+
+  it('adapts to a lasting louder background and still hears speech over it', () => {
+    const vad = new VoiceActivityDetector();
+    run(vad, () => noise(-70), 1000);
+
+    // A fan switches on: first taken for speech, then learned as the new floor
+    const step = run(vad, () => noise(-35), 10000);
+    expect(step[0].isSpeech).toBe(true);
+    expect(step.some(result => result.speechEnded)).toBe(true);
+    expect(step.slice(-50).every(result => result.frames.length === 0)).toBe(true);
+
+    expect(vad.process(tone(-10)).isSpeech).toBe(true);
+  });
+
+  it('follows a quieter background right away', () => {
+    const vad = new VoiceActivityDetector();
+    run(vad, () => noise(-35), 10000);
+    run(vad, () => noise(-75), 200);
+    expect(vad.process(tone(-45)).isSpeech).toBe(true);
+  });
+
+  it('forgets the utterance on interrupt but keeps the stats', () => {
+    const vad = new VoiceActivityDetector();
+    run(vad, () => noise(-70), 200);
+    run(vad, () => tone(-20), 100);
+    vad.interrupt();
+    expect(vad.isSpeech).toBe(false);
+    expect(vad.getStats().processedMs).toBe(300);
+    // No pre-roll from before the gap
+    expect(vad.process(tone(-20)).frames).toHaveLength(1);
+  });
+});
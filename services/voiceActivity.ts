@@ -0,0 +1,139 @@
+import { VadStats } from '../types';
+import { TARGET_SAMPLE_RATE } from './audioPipeline';
+
+export interface VadConfig {
+  thresholdDb: number; // Frames quieter than this (dBFS) are never speech
+  noiseMarginDb: number; // Speech must also be this far above the tracked noise floor
+  hangoverMs: number; // Keep sending this long after the last speech frame, so word endings are not cut
+  preRollMs: number; // Audio sent from just before speech starts, so first syllables are not cut
+  sampleRate: number;
+}
+
+export const DEFAULT_VAD_CONFIG: VadConfig = {
+  thresholdDb: -50,
+  noiseMarginDb: 10,
+  hangoverMs: 800,
+  preRollMs: 300,
+  sampleRate: TARGET_SAMPLE_RATE,
+};
+
+export const EMPTY_VAD_STATS: VadStats = { processedMs: 0, sentMs: 0, suppressedMs: 0 };
+
+// Time constants of the noise floor: it drops to quieter audio almost at once but rises slowly,
+// so speech barely lifts it while a lasting louder background (a fan, a noisy room) is adopted
+const NOISE_FLOOR_FALL_MS = 100;
+const NOISE_FLOOR_RISE_MS = 5000;
+const SILENCE_DB = -100;
+
+// RMS level of a PCM16 frame in dBFS
+export function frameLevelDb(frame: Int16Array): number {
+  if (frame.length === 0) return SILENCE_DB;
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) {
+    const s = frame[i] / 0x8000;
+    sum += s * s;
+  }
+  const rms = Math.sqrt(sum / frame.length);
+  return rms > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(rms)) : SILENCE_DB;
+}
+
+export interface VadResult {
+  frames: Int16Array[]; // What to send for this input frame: empty during silence, pre-roll + frame at onset
+  isSpeech: boolean;
+  speechEnded: boolean; // True on the frame where the hangover ran out
+}
+
+/**
+ * Energy-based voice activity detector over PCM16 frames. The threshold adapts to the
+ * background: a frame is speech when it is above both `thresholdDb` and the noise floor
+ * plus `noiseMarginDb`. The floor follows every frame, speech included, and starts
+ * `noiseMarginDb` below `thresholdDb`.
+ */
+export class VoiceActivityDetector {
+  private config: VadConfig;
+  private noiseFloorDb: number;
+  private hangoverLeftMs = 0;
+  private preRoll: Int16Array[] = [];
+  private preRollMs = 0;
+  private speaking = false;
+  private stats: VadStats = { ...EMPTY_VAD_STATS };
+
+  constructor(config: VadConfig = DEFAULT_VAD_CONFIG) {
+    this.config = config;
+    this.noiseFloorDb = config.thresholdDb - config.noiseMarginDb;
+  }
+
+  get isSpeech(): boolean {
+    return this.speaking;
+  }
+
+  getStats(): VadStats {
+    return { ...this.stats };
+  }
+
+  // Forgets the current utterance after a gap in the audio; the noise floor and stats are kept
+  interrupt() {
+    this.speaking = false;
+    this.hangoverLeftMs = 0;
+    this.clearPreRoll();
+  }
+
+  process(frame: Int16Array): VadResult {
+    const durationMs = (frame.length / this.config.sampleRate) * 1000;
+    const levelDb = frameLevelDb(frame);
+    const loud = this.isLoud(levelDb);
+    this.trackNoiseFloor(levelDb, durationMs);
+    this.stats.processedMs += durationMs;
+
+    if (loud) this.hangoverLeftMs = this.config.hangoverMs;
+
+    if (loud && !this.speaking) {
+      this.speaking = true;
+      const frames = [...this.preRoll, frame];
+      this.stats.sentMs += this.preRollMs + durationMs;
+      this.stats.suppressedMs -= this.preRollMs; // Those frames were counted as suppressed when they arrived
+      this.clearPreRoll();
+      return { frames, isSpeech: true, speechEnded: false };
+    }
+
+    if (this.speaking) {
+      this.hangoverLeftMs -= loud ? 0 : durationMs;
+      this.stats.sentMs += durationMs;
+      if (this.hangoverLeftMs <= 0) {
+        this.speaking = false;
+        return { frames: [frame], isSpeech: false, speechEnded: true };
+      }
+      return { frames: [frame], isSpeech: true, speechEnded: false };
+    }
+
+    this.stats.suppressedMs += durationMs;
+    this.pushPreRoll(frame, durationMs);
+    return { frames: [], isSpeech: false, speechEnded: false };
+  }
+
+  private isLoud(levelDb: number): boolean {
+    return levelDb > this.config.thresholdDb && levelDb > this.noiseFloorDb + this.config.noiseMarginDb;
+  }
+
+  private trackNoiseFloor(levelDb: number, durationMs: number) {
+    const timeConstantMs = levelDb < this.noiseFloorDb ? NOISE_FLOOR_FALL_MS : NOISE_FLOOR_RISE_MS;
+    this.noiseFloorDb += (levelDb - this.noiseFloorDb) * (1 - Math.exp(-durationMs / timeConstantMs));
+  }
+
+  private pushPreRoll(frame: Int16Array, durationMs: number) {
+    this.preRoll.push(frame);
+    this.preRollMs += durationMs;
+    // Keep at least preRollMs, dropping whole frames from the front
+    while (this.preRoll.length > 0) {
+      const firstMs = (this.preRoll[0].length / this.config.sampleRate) * 1000;
+      if (this.preRollMs - firstMs < this.config.preRollMs) break;
+      this.preRoll.shift();
+      this.preRollMs -= firstMs;
+    }
+  }
+
+  private clearPreRoll() {
+    this.preRoll = [];
+    this.preRollMs = 0;
+  }
+}
@@ -2,22 +2,197 @@ export enum ConnectionState {
   DISCONNECTED = 'DISCONNECTED',
   CONNECTING = 'CONNECTING',
   CONNECTED = 'CONNECTED',
+  RECONNECTING = 'RECONNECTING', // Connection dropped; audio is buffered until it comes back
   ERROR = 'ERROR',
 }
 
+export enum TranscriptSource {
+  ME = 'me', // Local microphone (what I said)
+  REMOTE = 'remote', // Tab/meeting audio (what the other participants said)
+  ASSISTANT = 'assistant', // Model output (suggestion)
+}
+
 export interface TranscriptionItem {
   id: string;
   timestamp: number;
+  endTimestamp?: number; // When the last fragment of the utterance arrived
+  offsetMs?: number; // Meeting-relative start, aligned with the recording
+  endOffsetMs?: number;
   text: string;
-  isUser: boolean; // true if input (meeting audio), false if model output (suggestion)
+  source: TranscriptSource;
   isComplete: boolean;
+  translation?: string; // The finished utterance in the meeting's translation language
+  pinned?: boolean; // Marked by the user as worth remembering
+  speaker?: string; // Stable label of who is talking on the remote channel, e.g. "Speaker 2"
+}
+
+// The two capture channels, kept as separate tracks so transcripts can be attributed
+export interface AudioSources {
+  me: MediaStream;
+  remote: MediaStream;
+}
+
+// How much captured audio the voice activity detector let through
+export interface VadStats {
+  processedMs: number;
+  sentMs: number;
+  suppressedMs: number;
+}
+
+// Live speech/silence state of one capture channel
+export interface VoiceActivity {
+  source: TranscriptSource.ME | TranscriptSource.REMOTE;
+  isSpeech: boolean;
+  stats: VadStats;
+}
+
+// How far an uploaded recording has been streamed, in recording time
+export interface ReplayProgress {
+  sentMs: number;
+  totalMs: number;
 }
 
 export interface AudioDeviceConfig {
-  micId?: string;
+  micId?: string; // Unset uses the browser's default microphone
+  tabGain: number;
+  micMuted: boolean;
+  recordAudio: boolean; // Keep a local recording of the mixed meeting audio
+}
+
+// Input processing for one microphone, saved per device
+export interface MicSettings {
+  gain: number;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
 }
 
 export interface Suggestion {
   text: string;
   timestamp: number;
 }
+
+export type SuggestionRating = 'up' | 'down';
+
+// One generated suggestion plus what produced it
+export interface SuggestionRecord {
+  id: string; // Same id as the assistant transcript item it was streamed into
+  text: string;
+  createdAt: number;
+  isComplete: boolean;
+  trigger: string; // Human readable cause, e.g. "Push back politely" or "Rewrite: shorter"
+  modeId: string;
+  prompt: string; // Kept so the suggestion can be regenerated
+  transcriptIndex: number; // Number of spoken transcript lines when it was requested
+  anchorItemId?: string; // Last spoken transcript line it refers to
+  parentId?: string; // The suggestion this one rewrites or regenerates
+  groupId?: string; // Shared by alternatives generated together
+  rating?: SuggestionRating;
+  backTranslation?: string; // The suggestion translated back into my reading language
+  knowledgeDocuments?: string[]; // Knowledge base documents whose passages were attached to the prompt
+}
+
+// A Markdown or text file imported into the knowledge base
+export interface KnowledgeDocument {
+  id: string;
+  name: string;
+  content: string;
+  importedAt: number;
+}
+
+export interface ActionItem {
+  task: string;
+  owner?: string;
+  dueDate?: string; // As mentioned in the meeting, e.g. "next Friday"
+}
+
+// Structured post-meeting summary, editable by the user after generation
+export interface MeetingSummary {
+  overview: string;
+  decisions: string[];
+  actionItems: ActionItem[];
+  openQuestions: string[];
+  generatedAt: number;
+}
+
+export interface Participant {
+  name: string;
+  role: string;
+}
+
+// Reference material pasted or uploaded as plain text / Markdown
+export interface BriefingDocument {
+  name: string;
+  content: string;
+}
+
+// What the assistant should know about the meeting before it starts
+export interface MeetingBriefing {
+  agenda: string;
+  participants: Participant[];
+  goals: string;
+  notes: string;
+  documents: BriefingDocument[];
+}
+
+// Metadata of a meeting's audio recording; the audio itself is stored separately
+export interface RecordingInfo {
+  mimeType: string;
+  durationMs: number;
+  sizeBytes: number;
+}
+
+// A recorded meeting, persisted locally from Start to End
+export type AuditEventType = 'consentGiven' | 'captureStarted' | 'capturePaused' | 'captureResumed' | 'captureStopped';
+
+export interface AuditEntry {
+  type: AuditEventType;
+  at: number; // Epoch ms
+  detail?: string; // e.g. the announcement the participants were given
+}
+
+// Timing of one requestSuggestion call, relative to when it was sent
+export interface SuggestionLatency {
+  requestedAt: number; // Epoch ms
+  firstTokenMs?: number; // Until the first output arrived; unset if none did
+  lastTokenMs?: number; // Until the suggestion was complete
+}
+
+// What the live assistant service sent and received during a meeting
+export interface MeetingTelemetry {
+  audioMsSent: Record<TranscriptSource.ME | TranscriptSource.REMOTE, number>; // After voice activity gating
+  messagesReceived: number;
+  inputTokens: number; // As reported by the service; 0 when it reports none
+  outputTokens: number;
+  suggestions: SuggestionLatency[];
+  reconnects: number;
+  errors: number;
+  lastError?: string;
+}
+
+export interface MeetingSession {
+  id: string;
+  title: string;
+  startedAt: number;
+  endedAt?: number;
+  transcript: TranscriptionItem[];
+  suggestions: SuggestionRecord[];
+  summary?: MeetingSummary;
+  briefing?: MeetingBriefing;
+  recording?: RecordingInfo;
+  translationLanguage?: string; // Language the transcript was translated into
+  speakerNames?: Record<string, string>; // Participant names given to speaker labels
+  auditLog?: AuditEntry[]; // Consent and capture events, oldest first
+  telemetry?: MeetingTelemetry;
+}
+
+// Session metadata kept in App state while the transcript lives in its own state
+export type MeetingDetails = Omit<MeetingSession, 'transcript' | 'suggestions'>;
+
+// One change made to a saved meeting in the history, so the same change can be applied elsewhere
+export type SessionEdit =
+  | { field: 'title'; title: string }
+  | { field: 'summary'; summary: MeetingSummary }
+  | { field: 'speakerName'; speaker: string; name: string }
+  | { field: 'rating'; suggestionId: string; rating: SuggestionRating | undefined }
+  | { field: 'pinned'; itemId: string; pinned: boolean | undefined };